@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../../core/zs';
+import { zodStorage } from '../../core/zodStorage';
+import { createMemoryStorage } from '../memoryStorage';
+import { createPrefixedStorage } from '../prefixedStorage';
+
+describe('storage adapters', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  describe('createMemoryStorage', () => {
+    it('should get/set/remove values in memory', () => {
+      const memory = createMemoryStorage();
+
+      memory.setItem('a', '1');
+      memory.setItem('b', '2');
+      expect(memory.getItem('a')).toBe('1');
+      expect(memory.keys()).toEqual(['a', 'b']);
+
+      memory.removeItem('a');
+      expect(memory.getItem('a')).toBeNull();
+      expect(memory.keys()).toEqual(['b']);
+    });
+
+    it('should accept initial values', () => {
+      const memory = createMemoryStorage({ a: '"x"' });
+      expect(memory.getItem('a')).toBe('"x"');
+    });
+
+    it('should not share state between instances', () => {
+      const first = createMemoryStorage();
+      const second = createMemoryStorage();
+
+      first.setItem('a', '1');
+      expect(second.getItem('a')).toBeNull();
+    });
+  });
+
+  describe('createPrefixedStorage', () => {
+    it('should prefix keys in localStorage by default', () => {
+      const prefixed = createPrefixedStorage('app:');
+
+      prefixed.setItem('theme', '"dark"');
+      expect(localStorage.getItem('app:theme')).toBe('"dark"');
+      expect(prefixed.getItem('theme')).toBe('"dark"');
+    });
+
+    it('should only list its own keys without the prefix', () => {
+      const prefixed = createPrefixedStorage('app:', 'session');
+
+      sessionStorage.setItem('other', '1');
+      prefixed.setItem('a', '1');
+      prefixed.setItem('b', '2');
+
+      expect(prefixed.keys().sort()).toEqual(['a', 'b']);
+    });
+
+    it('should wrap another adapter', () => {
+      const memory = createMemoryStorage();
+      const prefixed = createPrefixedStorage('app:', memory);
+
+      prefixed.setItem('a', '1');
+      expect(memory.getItem('app:a')).toBe('1');
+
+      prefixed.removeItem('a');
+      expect(memory.keys()).toEqual([]);
+    });
+  });
+
+  describe('zodStorage with adapters', () => {
+    it('should route get/set/clear/init through the adapter', () => {
+      const memory = createMemoryStorage();
+      const storage = zs({
+        key: 'numbers',
+        schema: z.array(z.number()),
+        defaultValue: [0],
+        storage: memory,
+      });
+
+      zodStorage.set(storage, [1, 2, 3]);
+      expect(memory.getItem('numbers')).toBe(JSON.stringify([1, 2, 3]));
+      expect(localStorage.getItem('numbers')).toBeNull();
+      expect(zodStorage.get(storage)).toEqual([1, 2, 3]);
+
+      zodStorage.clear(storage);
+      expect(zodStorage.get(storage)).toBeNull();
+
+      zodStorage.init(storage);
+      expect(zodStorage.get(storage)).toEqual([0]);
+    });
+
+    it('should validate values read from the adapter', () => {
+      const memory = createMemoryStorage({ count: JSON.stringify('not a number') });
+      const storage = zs({
+        key: 'count',
+        schema: z.number(),
+        defaultValue: 0,
+        storage: memory,
+      });
+
+      expect(zodStorage.get(storage)).toBeNull();
+      expect(zodStorage.get(storage, { onFailure: 'default' })).toBe(0);
+    });
+  });
+});
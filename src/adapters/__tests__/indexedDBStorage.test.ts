@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { z } from 'zod';
+import { zs } from '../../core/zs';
+import { createZodStorage, zodStorage } from '../../core/zodStorage';
+import { createIndexedDBStorage } from '../indexedDBStorage';
+import { AsyncStorageAdapter } from '@/types/type';
+
+describe('createIndexedDBStorage', () => {
+  let idb: AsyncStorageAdapter;
+
+  beforeEach(() => {
+    idb = createIndexedDBStorage({ indexedDB: new IDBFactory() });
+  });
+
+  it('should get/set/remove values', async () => {
+    await idb.setItem('a', '1');
+    await idb.setItem('b', '2');
+    expect(await idb.getItem('a')).toBe('1');
+    expect((await idb.keys()).sort()).toEqual(['a', 'b']);
+
+    await idb.removeItem('a');
+    expect(await idb.getItem('a')).toBeNull();
+    expect(await idb.keys()).toEqual(['b']);
+  });
+
+  it('should create each store of a shared database', async () => {
+    const factory = new IDBFactory();
+    const entries = createIndexedDBStorage({ indexedDB: factory });
+    const drafts = createIndexedDBStorage({ indexedDB: factory, storeName: 'drafts' });
+
+    await entries.setItem('a', '1');
+    await drafts.setItem('a', '2');
+    await entries.setItem('b', '3');
+
+    expect(await entries.getItem('a')).toBe('1');
+    expect(await drafts.getItem('a')).toBe('2');
+    expect(await entries.keys()).toEqual(['a', 'b']);
+    expect(await drafts.keys()).toEqual(['a']);
+  });
+
+  it('should reject when IndexedDB is unavailable', async () => {
+    const original = globalThis.indexedDB;
+    vi.stubGlobal('indexedDB', undefined);
+
+    try {
+      await expect(createIndexedDBStorage().getItem('a')).rejects.toThrow(
+        'IndexedDB is not available'
+      );
+    } finally {
+      vi.stubGlobal('indexedDB', original);
+    }
+  });
+
+  describe('async API', () => {
+    const schema = z.object({ count: z.number() });
+
+    it('should set and get a value', async () => {
+      const entry = zs({ key: 'counter', schema, defaultValue: { count: 0 }, storage: idb });
+
+      expect(await zodStorage.async.set(entry, { count: 3 })).toBe(true);
+      expect(await zodStorage.async.get(entry)).toEqual({ count: 3 });
+      expect(await idb.getItem('counter')).toBe('{"count":3}');
+    });
+
+    it('should return null when missing and apply onFailure when invalid', async () => {
+      const entry = zs({ key: 'counter', schema, defaultValue: { count: 0 }, storage: idb });
+
+      expect(await zodStorage.async.get(entry)).toBeNull();
+
+      await idb.setItem('counter', '{"count":"nope"}');
+      expect(await zodStorage.async.get(entry)).toBeNull();
+      expect(await zodStorage.async.get(entry, { onFailure: 'default' })).toEqual({ count: 0 });
+    });
+
+    it('should clear and init a value', async () => {
+      const entry = zs({ key: 'counter', schema, defaultValue: { count: 5 }, storage: idb });
+
+      expect(await zodStorage.async.init(entry)).toBe(true);
+      expect(await idb.getItem('counter')).toBe('{"count":5}');
+
+      await zodStorage.async.clear(entry);
+      expect(await idb.getItem('counter')).toBeNull();
+    });
+
+    it('should prefix keys with the instance namespace', async () => {
+      const storage = createZodStorage({ namespace: 'app', storage: idb });
+      const entry = zs({ key: 'counter', schema, defaultValue: { count: 0 } });
+
+      await storage.async.set(entry, { count: 1 });
+      expect(await idb.getItem('app:counter')).toBe('{"count":1}');
+      expect(await storage.async.get(entry)).toEqual({ count: 1 });
+    });
+  });
+
+  describe('sync API', () => {
+    it('should throw for entries using an async storage', () => {
+      const entry = zs({ key: 'flag', schema: z.boolean(), defaultValue: false, storage: idb });
+
+      expect(() => zodStorage.get(entry)).toThrow(
+        'Entry "flag" is async and can only be used with the async API'
+      );
+      expect(() => zodStorage.set(entry, true)).toThrow('is async');
+      expect(() => zodStorage.clear(entry)).toThrow('is async');
+    });
+
+    it('should throw from keys and clearNamespace for async instances', () => {
+      const storage = createZodStorage({ namespace: 'app', storage: idb });
+
+      expect(() => storage.keys()).toThrow('The storage is async');
+      expect(() => storage.clearNamespace()).toThrow('The storage is async');
+    });
+  });
+
+  it('should notify subscribers with values read asynchronously', async () => {
+    const entry = zs({ key: 'flag', schema: z.boolean(), defaultValue: false, storage: idb });
+    const listener = vi.fn();
+    const unsubscribe = zodStorage.subscribe(entry, listener);
+
+    await zodStorage.async.set(entry, true);
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(true));
+
+    unsubscribe();
+  });
+
+  it('should pass errors thrown by async listeners to onError', async () => {
+    const entry = zs({ key: 'flag', schema: z.boolean(), defaultValue: false, storage: idb });
+    const onError = vi.fn();
+    const unsubscribe = zodStorage.subscribe(
+      entry,
+      () => {
+        throw new Error('boom');
+      },
+      { onError }
+    );
+
+    await zodStorage.async.set(entry, true);
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(new Error('boom')));
+
+    unsubscribe();
+  });
+});
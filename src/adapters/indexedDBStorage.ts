@@ -0,0 +1,114 @@
+import { AsyncStorageAdapter } from '@/types/type';
+
+/**
+ * Options type for createIndexedDBStorage
+ */
+export interface IndexedDBStorageOptions {
+  /**
+   * Database name.
+   * Default: "zod-storage"
+   */
+  name?: string;
+
+  /**
+   * Object store name.
+   * Default: "entries"
+   */
+  storeName?: string;
+
+  /**
+   * IndexedDB factory to use.
+   * Default: the global `indexedDB`
+   */
+  indexedDB?: IDBFactory;
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Creates an AsyncStorageAdapter backed by an IndexedDB object store.
+ * The database is opened lazily on first use and kept open.
+ * Adapters can share a database with different stores: a missing store is created on open.
+ *
+ * @param {IndexedDBStorageOptions} [options] - Database options
+ * @returns {AsyncStorageAdapter} IndexedDB adapter
+ */
+export const createIndexedDBStorage = (
+  options: IndexedDBStorageOptions = {}
+): AsyncStorageAdapter => {
+  const { name = 'zod-storage', storeName = 'entries' } = options;
+
+  let database: Promise<IDBDatabase> | undefined;
+
+  const connect = (factory: IDBFactory, version?: number) =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+      const request = version === undefined ? factory.open(name) : factory.open(name, version);
+
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+  const open = () => {
+    database ??= (async () => {
+      const factory = options.indexedDB ?? globalThis.indexedDB;
+
+      if (!factory) {
+        throw new Error('IndexedDB is not available in this environment');
+      }
+
+      let db = await connect(factory);
+
+      // The database may have been created by an adapter with another store:
+      // stores can only be added by opening a newer version
+      while (!db.objectStoreNames.contains(storeName)) {
+        db.close();
+        db = await connect(factory, db.version + 1);
+      }
+
+      // Let other adapters upgrade the database, and reopen it on next use
+      db.onversionchange = () => {
+        db.close();
+        database = undefined;
+      };
+
+      return db;
+    })();
+
+    // Allow retrying after a failed open
+    database.catch(() => {
+      database = undefined;
+    });
+
+    return database;
+  };
+
+  const store = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(storeName, mode).objectStore(storeName);
+
+  return {
+    async: true,
+    getItem: async (key) => {
+      const value: unknown = await promisify((await store('readonly')).get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: async (key, value) => {
+      await promisify((await store('readwrite')).put(value, key));
+    },
+    removeItem: async (key) => {
+      await promisify((await store('readwrite')).delete(key));
+    },
+    keys: async () => {
+      const keys = await promisify((await store('readonly')).getAllKeys());
+      return keys.filter((key): key is string => typeof key === 'string');
+    },
+  };
+};
@@ -0,0 +1,23 @@
+import { StorageAdapter } from '@/types/type';
+
+/**
+ * Creates a StorageAdapter that keeps values in memory.
+ * Values live as long as the adapter instance and are never persisted.
+ *
+ * @param {Record<string, string>} [initial] - Optional initial raw values
+ * @returns {StorageAdapter} In-memory adapter
+ */
+export const createMemoryStorage = (initial?: Record<string, string>): StorageAdapter => {
+  const store = new Map<string, string>(Object.entries(initial ?? {}));
+
+  return {
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, value) => {
+      store.set(key, value);
+    },
+    removeItem: (key) => {
+      store.delete(key);
+    },
+    keys: () => Array.from(store.keys()),
+  };
+};
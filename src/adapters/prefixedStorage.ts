@@ -0,0 +1,54 @@
+import { AsyncStorageAdapter, StorageAdapter, StorageType } from '@/types/type';
+import { getStorageObject, isAsyncStorage } from '../utils/getStorageObject';
+
+/**
+ * Creates a StorageAdapter that prepends `prefix` to every key of an underlying storage.
+ * `keys()` only returns keys carrying the prefix, with the prefix removed.
+ *
+ * @param {string} prefix - The prefix added to every key
+ * @param {StorageType | StorageAdapter} [storage] - The underlying storage, defaults to "local"
+ * @returns {StorageAdapter} Prefixed adapter
+ */
+export function createPrefixedStorage(
+  prefix: string,
+  storage?: StorageType | StorageAdapter
+): StorageAdapter;
+/**
+ * Creates an AsyncStorageAdapter that prepends `prefix` to every key of an underlying async storage.
+ * `keys()` only resolves keys carrying the prefix, with the prefix removed.
+ *
+ * @param {string} prefix - The prefix added to every key
+ * @param {AsyncStorageAdapter} storage - The underlying async storage
+ * @returns {AsyncStorageAdapter} Prefixed async adapter
+ */
+export function createPrefixedStorage(
+  prefix: string,
+  storage: AsyncStorageAdapter
+): AsyncStorageAdapter;
+export function createPrefixedStorage(
+  prefix: string,
+  storage: StorageType | StorageAdapter | AsyncStorageAdapter = 'local'
+): StorageAdapter | AsyncStorageAdapter {
+  const unprefix = (keys: string[]) =>
+    keys.filter((key) => key.startsWith(prefix)).map((key) => key.slice(prefix.length));
+
+  if (isAsyncStorage(storage)) {
+    return {
+      async: true,
+      getItem: (key) => storage.getItem(prefix + key),
+      setItem: (key, value) => storage.setItem(prefix + key, value),
+      removeItem: (key) => storage.removeItem(prefix + key),
+      keys: async () => unprefix(await storage.keys()),
+    };
+  }
+
+  // Resolved on every call so a web storage is never touched before it is used
+  const base = () => getStorageObject(storage);
+
+  return {
+    getItem: (key) => base().getItem(prefix + key),
+    setItem: (key, value) => base().setItem(prefix + key, value),
+    removeItem: (key) => base().removeItem(prefix + key),
+    keys: () => unprefix(base().keys()),
+  };
+}
@@ -0,0 +1,28 @@
+import { StorageAdapter } from '@/types/type';
+
+/**
+ * Wraps a Web Storage object (`localStorage` / `sessionStorage`) as a StorageAdapter.
+ *
+ * @param {Storage} storage - The Web Storage object to wrap
+ * @returns {StorageAdapter} Adapter delegating to the given storage
+ */
+export const createWebStorage = (storage: Storage): StorageAdapter => {
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key),
+    keys: () => {
+      const keys: string[] = [];
+
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+
+        if (key !== null) {
+          keys.push(key);
+        }
+      }
+
+      return keys;
+    },
+  };
+};
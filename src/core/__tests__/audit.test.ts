@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../zs';
+import { createZodStorage, zodStorage } from '../zodStorage';
+import { createMemoryStorage } from '../../adapters/memoryStorage';
+import { StorageUnavailableError } from '../errors';
+import { StorageAdapter } from '@/types/type';
+
+describe('audit', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  const theme = zs({ key: 'theme', schema: z.enum(['light', 'dark']), defaultValue: 'light' });
+  const count = zs({ key: 'count', schema: z.number(), defaultValue: 0 });
+  const user = zs({
+    key: 'user',
+    schema: z.object({ name: z.string(), age: z.number() }),
+    defaultValue: { name: '', age: 0 },
+  });
+  const draft = zs({ key: 'draft', schema: z.string(), defaultValue: '', storage: 'session' });
+
+  it('should report the status of each entry', () => {
+    zodStorage.set(theme, 'dark');
+    localStorage.setItem('count', '{corrupt');
+    localStorage.setItem('user', JSON.stringify({ name: 'Ada', age: 'old' }));
+
+    const { entries } = zodStorage.audit([theme, count, user, draft]);
+
+    expect(entries.map(({ key, status }) => [key, status])).toEqual([
+      ['theme', 'valid'],
+      ['count', 'unparsable'],
+      ['user', 'invalid'],
+      ['draft', 'missing'],
+    ]);
+    expect(entries[1].error).toBeInstanceOf(Error);
+    expect(entries[2].issues).toBe('age: Expected number, received string');
+  });
+
+  it('should report the size of stored values in bytes', () => {
+    zodStorage.set(theme, 'dark');
+
+    const { entries } = zodStorage.audit([theme, count]);
+
+    // "theme" + "\"dark\"", two bytes per character
+    expect(entries[0].bytes).toBe(22);
+    expect(entries[1].bytes).toBe(0);
+  });
+
+  it('should report expired values without removing them', () => {
+    const session = zs({ key: 'session', schema: z.string(), defaultValue: '', ttl: 1000 });
+    localStorage.setItem(
+      'session',
+      JSON.stringify({ __zs: { expiresAt: Date.now() - 1 }, value: 'abc' })
+    );
+
+    const before = localStorage.getItem('session');
+    const { entries } = zodStorage.audit([session]);
+
+    expect(entries[0].status).toBe('expired');
+    expect(localStorage.getItem('session')).toBe(before);
+  });
+
+  it('should not modify storage without fix', () => {
+    localStorage.setItem('count', '{corrupt');
+
+    zodStorage.audit([count]);
+
+    expect(localStorage.getItem('count')).toBe('{corrupt');
+  });
+
+  it('should find orphan keys in local and session storage', () => {
+    zodStorage.set(theme, 'dark');
+    localStorage.setItem('legacy', '1');
+    sessionStorage.setItem('tmp', 'x');
+
+    const { orphans } = zodStorage.audit({ theme, draft });
+
+    expect(orphans).toEqual([
+      { key: 'legacy', storage: 'local', bytes: 14 },
+      { key: 'tmp', storage: 'session', bytes: 8 },
+    ]);
+  });
+
+  it('should not report keys claimed by entries of another storage as orphans', () => {
+    sessionStorage.setItem('theme', '"dark"');
+
+    const { orphans } = zodStorage.audit([theme]);
+
+    expect(orphans).toEqual([{ key: 'theme', storage: 'session', bytes: 22 }]);
+  });
+
+  it('should scan the custom storages of entries', () => {
+    const memory = createMemoryStorage({ stale: '1' });
+
+    const { entries, orphans } = zodStorage.audit([{ ...count, storage: memory }]);
+
+    expect(entries[0]).toMatchObject({ key: 'count', status: 'missing' });
+    expect(orphans).toEqual([{ key: 'stale', storage: memory, bytes: 12 }]);
+  });
+
+  it('should only scan the keys of the namespace', () => {
+    const checkoutStorage = createZodStorage({ namespace: 'checkout' });
+    checkoutStorage.set(count, 1);
+    localStorage.setItem('checkout:old', '1');
+    localStorage.setItem('other', '1');
+
+    const { entries, orphans } = checkoutStorage.audit([count]);
+
+    // "checkout:count" + "1"
+    expect(entries[0]).toMatchObject({ status: 'valid', bytes: 30 });
+    expect(orphans).toEqual([{ key: 'old', storage: 'local', bytes: 26 }]);
+  });
+
+  it('should clear broken entries with fix: "clear"', () => {
+    zodStorage.set(theme, 'dark');
+    localStorage.setItem('count', '{corrupt');
+    localStorage.setItem('user', '{"name":1}');
+
+    const { entries } = zodStorage.audit([theme, count, user], { fix: 'clear' });
+
+    expect(entries.map(({ fixed }) => fixed)).toEqual([undefined, true, true]);
+    expect(localStorage.getItem('theme')).toBe('"dark"');
+    expect(localStorage.getItem('count')).toBeNull();
+    expect(localStorage.getItem('user')).toBeNull();
+  });
+
+  it('should reinitialize broken entries with fix: "init"', () => {
+    localStorage.setItem('count', '{corrupt');
+
+    const { entries } = zodStorage.audit([count, theme], { fix: 'init' });
+
+    expect(entries[0]).toMatchObject({ status: 'unparsable', fixed: true });
+    expect(entries[1].fixed).toBeUndefined();
+    expect(zodStorage.get(count)).toBe(0);
+    expect(localStorage.getItem('theme')).toBeNull();
+  });
+
+  it('should keep values written by a newer schema version with fix: "init"', () => {
+    const stored = JSON.stringify({ __zs: { version: 2 }, value: 5 });
+    localStorage.setItem('count', stored);
+
+    const { entries } = zodStorage.audit([{ ...count, version: 1 }], { fix: 'init' });
+
+    expect(entries[0]).toMatchObject({ status: 'unparsable', fixed: false });
+    expect(localStorage.getItem('count')).toBe(stored);
+  });
+
+  it('should report storages that cannot be read as unavailable', () => {
+    const blocked: StorageAdapter = {
+      ...createMemoryStorage(),
+      getItem: () => {
+        throw new Error('Access denied');
+      },
+    };
+
+    const { entries } = zodStorage.audit([{ ...theme, storage: blocked }]);
+
+    expect(entries[0]).toMatchObject({ status: 'unavailable', bytes: 0 });
+    expect(entries[0].error?.message).toBe('Access denied');
+  });
+
+  it('should report Web Storages unavailable with the throw fallback', () => {
+    const original = Object.getOwnPropertyDescriptor(globalThis, 'localStorage');
+    Object.defineProperty(globalThis, 'localStorage', { configurable: true, value: undefined });
+
+    try {
+      const { entries } = zodStorage.audit([{ ...theme, fallback: 'throw' }], { fix: 'clear' });
+
+      expect(entries[0]).toMatchObject({ status: 'unavailable', bytes: 0 });
+      expect(entries[0].error).toBeInstanceOf(StorageUnavailableError);
+      expect(entries[0].fixed).toBeUndefined();
+    } finally {
+      if (original) {
+        Object.defineProperty(globalThis, 'localStorage', original);
+      }
+    }
+  });
+
+  it('should skip encrypted values', () => {
+    localStorage.setItem('theme', 'enc:v1:abc');
+
+    expect(zodStorage.audit([theme]).entries[0].status).toBe('skipped');
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, expectTypeOf } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../zs';
+import { createZodStorage } from '../zodStorage';
+import { StorageValidationError } from '../errors';
+import { createMemoryStorage } from '../../adapters/memoryStorage';
+
+const BookmarkSchema = z.object({ id: z.string(), url: z.string().url(), pinned: z.boolean() });
+
+type Bookmark = z.infer<typeof BookmarkSchema>;
+
+const first: Bookmark = { id: 'a', url: 'https://a.example', pinned: true };
+const second: Bookmark = { id: 'b', url: 'https://b.example', pinned: false };
+
+describe.each([false, true])('zs.collection (split: %s)', (split) => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const bookmarks = zs.collection({
+    key: 'bookmarks',
+    itemSchema: BookmarkSchema,
+    idField: 'id',
+    split,
+  });
+
+  it('should insert items and list them in insertion order', () => {
+    expect(bookmarks.insert(second)).toBe(true);
+    expect(bookmarks.insert(first)).toBe(true);
+
+    const items = bookmarks.list();
+
+    expectTypeOf(items).toEqualTypeOf<Bookmark[]>();
+    expect(items).toEqual([second, first]);
+  });
+
+  it('should not insert an item whose id exists', () => {
+    bookmarks.insert(first);
+
+    expect(bookmarks.insert({ ...first, pinned: false })).toBe(false);
+    expect(bookmarks.getById('a')).toEqual(first);
+  });
+
+  it('should replace or add items with upsert', () => {
+    bookmarks.insert(first);
+
+    expect(bookmarks.upsert({ ...first, pinned: false })).toBe(true);
+    expect(bookmarks.upsert(second)).toBe(true);
+    expect(bookmarks.list()).toEqual([{ ...first, pinned: false }, second]);
+  });
+
+  it('should validate items before writing them', () => {
+    const invalid = { ...first, url: 'not a url' };
+
+    expect(bookmarks.insert(invalid)).toBe(false);
+    expect(() => bookmarks.upsert(invalid, { onInvalid: 'throw' })).toThrow(StorageValidationError);
+    expect(bookmarks.list()).toEqual([]);
+  });
+
+  it('should remove items by id', () => {
+    bookmarks.insert(first);
+    bookmarks.insert(second);
+
+    expect(bookmarks.remove('a')).toBe(true);
+    expect(bookmarks.remove('a')).toBe(false);
+    expect(bookmarks.getById('a')).toBeNull();
+    expect(bookmarks.list()).toEqual([second]);
+  });
+
+  it('should filter items with where', () => {
+    bookmarks.insert(first);
+    bookmarks.insert(second);
+
+    expect(bookmarks.where((bookmark) => bookmark.pinned)).toEqual([first]);
+  });
+
+  it('should clear every item', () => {
+    bookmarks.insert(first);
+    bookmarks.insert(second);
+    localStorage.setItem('other', '1');
+
+    bookmarks.clear();
+
+    expect(bookmarks.list()).toEqual([]);
+    expect(localStorage.length).toBe(1);
+    expect(localStorage.getItem('other')).toBe('1');
+  });
+});
+
+describe('zs.collection storage layout', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should store items as one array by default', () => {
+    const bookmarks = zs.collection({
+      key: 'bookmarks',
+      itemSchema: BookmarkSchema,
+      idField: 'id',
+    });
+
+    bookmarks.insert(first);
+
+    expect(JSON.parse(localStorage.getItem('bookmarks') ?? '')).toEqual([first]);
+  });
+
+  it('should leave invalid items out of reads without losing them', () => {
+    const bookmarks = zs.collection({
+      key: 'bookmarks',
+      itemSchema: BookmarkSchema,
+      idField: 'id',
+    });
+    const broken = { id: 'x', url: 42 };
+    localStorage.setItem('bookmarks', JSON.stringify([first, broken]));
+
+    expect(bookmarks.list()).toEqual([first]);
+    expect(bookmarks.getById('x')).toBeNull();
+
+    bookmarks.insert(second);
+
+    expect(JSON.parse(localStorage.getItem('bookmarks') ?? '')).toEqual([first, broken, second]);
+  });
+
+  it('should store each item under its own key with split', () => {
+    const bookmarks = zs.collection({
+      key: 'bookmarks',
+      itemSchema: BookmarkSchema,
+      idField: 'id',
+      split: true,
+    });
+
+    bookmarks.insert(first);
+    bookmarks.insert(second);
+
+    expect(localStorage.getItem('bookmarks')).toBe('["a","b"]');
+    expect(JSON.parse(localStorage.getItem('bookmarks:a') ?? '')).toEqual(first);
+  });
+
+  it('should keep reading other items when one item is corrupt with split', () => {
+    const bookmarks = zs.collection({
+      key: 'bookmarks',
+      itemSchema: BookmarkSchema,
+      idField: 'id',
+      split: true,
+    });
+
+    bookmarks.insert(first);
+    bookmarks.insert(second);
+    localStorage.setItem('bookmarks:a', '{corrupt');
+
+    expect(bookmarks.list()).toEqual([second]);
+    expect(bookmarks.getById('a')).toBeNull();
+  });
+
+  it('should support numeric ids, storages and instances', () => {
+    const memory = createMemoryStorage();
+    const filters = zs.collection(
+      {
+        key: 'filters',
+        itemSchema: z.object({ id: z.number(), query: z.string() }),
+        idField: 'id',
+        split: true,
+        storage: memory,
+      },
+      { instance: createZodStorage({ namespace: 'app' }) }
+    );
+
+    filters.insert({ id: 1, query: 'open' });
+
+    expect(memory.getItem('app:filters:1')).toBe('{"id":1,"query":"open"}');
+    expect(filters.getById(1)).toEqual({ id: 1, query: 'open' });
+    expect(filters.remove(1)).toBe(true);
+    expect(memory.keys()).toEqual(['app:filters']);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../zs';
+import { createZodStorage, zodStorage } from '../zodStorage';
+import { createMemoryStorage } from '../../adapters/memoryStorage';
+import { ZodStorageError } from '../errors';
+
+describe('createZodStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  const theme = zs({
+    key: 'theme',
+    schema: z.enum(['light', 'dark']),
+    defaultValue: 'light',
+  });
+
+  it('should prefix keys with the namespace', () => {
+    const app = createZodStorage({ namespace: 'app' });
+
+    app.set(theme, 'dark');
+    expect(localStorage.getItem('app:theme')).toBe('"dark"');
+    expect(localStorage.getItem('theme')).toBeNull();
+    expect(app.get(theme)).toBe('dark');
+  });
+
+  it('should keep instances with different namespaces isolated', () => {
+    const first = createZodStorage({ namespace: 'first' });
+    const second = createZodStorage({ namespace: 'second' });
+
+    first.set(theme, 'dark');
+    second.set(theme, 'light');
+
+    expect(first.get(theme)).toBe('dark');
+    expect(second.get(theme)).toBe('light');
+    expect(zodStorage.get(theme)).toBeNull();
+  });
+
+  it('should use the instance storage for entries without a storage', () => {
+    const session = createZodStorage({ namespace: 'app', storage: 'session' });
+
+    session.init(theme);
+    expect(sessionStorage.getItem('app:theme')).toBe('"light"');
+    expect(localStorage.getItem('app:theme')).toBeNull();
+  });
+
+  it('should let entries override the instance storage', () => {
+    const memory = createMemoryStorage();
+    const app = createZodStorage({ namespace: 'app', storage: memory });
+    const local = zs({ key: 'local', schema: z.number(), defaultValue: 0, storage: 'local' });
+
+    app.set(local, 1);
+    expect(localStorage.getItem('app:local')).toBe('1');
+    expect(memory.keys()).toEqual([]);
+  });
+
+  it('should use the instance onFailure by default', () => {
+    const app = createZodStorage({ namespace: 'app', onFailure: 'default' });
+
+    localStorage.setItem('app:theme', '"purple"');
+    expect(app.get(theme)).toBe('light');
+    expect(app.get(theme, { onFailure: 'null' })).toBeNull();
+  });
+
+  it('should clear only the keys of its namespace', () => {
+    const app = createZodStorage({ namespace: 'app' });
+    const other = createZodStorage({ namespace: 'other' });
+    const count = zs({ key: 'count', schema: z.number(), defaultValue: 0 });
+
+    app.set(theme, 'dark');
+    app.set(count, 1);
+    other.set(theme, 'dark');
+    localStorage.setItem('unrelated', '1');
+
+    expect(app.keys().sort()).toEqual(['count', 'theme']);
+
+    app.clearNamespace();
+
+    expect(app.keys()).toEqual([]);
+    expect(other.get(theme)).toBe('dark');
+    expect(localStorage.getItem('unrelated')).toBe('1');
+  });
+
+  it('should refuse to clear without a namespace', () => {
+    localStorage.setItem('other-lib', '1');
+
+    expect(() => zodStorage.clearNamespace()).toThrow(ZodStorageError);
+    expect(() => createZodStorage().clearNamespace('session')).toThrow(ZodStorageError);
+    expect(localStorage.getItem('other-lib')).toBe('1');
+  });
+
+  it('should clear a namespace in a given storage', () => {
+    const app = createZodStorage({ namespace: 'app' });
+    const sessionTheme = zs({
+      key: 'theme',
+      schema: z.enum(['light', 'dark']),
+      defaultValue: 'light',
+      storage: 'session',
+    });
+
+    app.set(theme, 'dark');
+    app.set(sessionTheme, 'dark');
+    app.clearNamespace('session');
+
+    expect(sessionStorage.getItem('app:theme')).toBeNull();
+    expect(localStorage.getItem('app:theme')).toBe('"dark"');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../zs';
+import { zodStorage } from '../zodStorage';
+import { StorageValidationError } from '../errors';
+
+describe('default values', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const todos = zs({ key: 'todos', schema: z.array(z.string()), defaultValue: ['first'] });
+
+  it('should hand back a fresh copy of the default on every read', () => {
+    const value = zodStorage.get(todos, { onFailure: 'default' }) ?? todos.defaultValue;
+    value.push('mutated');
+
+    expect(todos.defaultValue).toEqual(['first']);
+    expect(todos.defaultValue).not.toBe(todos.defaultValue);
+  });
+
+  it('should return fresh copies from ensure and update', () => {
+    zodStorage.ensure(todos).push('mutated');
+    localStorage.clear();
+
+    expect(zodStorage.ensure(todos)).toEqual(['first']);
+
+    zodStorage.update(todos, (current) => {
+      current.push('second');
+      return current;
+    });
+    expect(todos.defaultValue).toEqual(['first']);
+  });
+
+  it('should accept a factory called on every read', () => {
+    const factory = vi.fn(() => ({ createdAt: Date.now() }));
+    const entry = zs({
+      key: 'session',
+      schema: z.object({ createdAt: z.number() }),
+      defaultValue: factory,
+    });
+
+    expect(factory).not.toHaveBeenCalled();
+
+    zodStorage.init(entry);
+
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(zodStorage.get(entry)).toEqual({ createdAt: expect.any(Number) as number });
+  });
+
+  it('should store and return the same factory value from ensure', async () => {
+    let id = 0;
+    const entry = zs({
+      key: 'session',
+      schema: z.object({ id: z.number() }),
+      defaultValue: () => ({ id: ++id }),
+    });
+
+    expect(zodStorage.ensure(entry)).toEqual(zodStorage.get(entry));
+
+    localStorage.clear();
+
+    expect(await zodStorage.async.ensure(entry)).toEqual(zodStorage.get(entry));
+  });
+
+  it('should validate every value returned by a factory', () => {
+    const entry = zs({ key: 'email', schema: z.string().email(), defaultValue: () => 'nope' });
+
+    expect(() => entry.defaultValue).toThrow(StorageValidationError);
+    expect(() => zodStorage.init(entry)).toThrow(/default value factory result of "email"/);
+    expect(() => zodStorage.ensure(entry)).toThrow(StorageValidationError);
+    expect(localStorage.getItem('email')).toBeNull();
+  });
+
+  it('should throw when a static default does not match the schema', () => {
+    const define = () => zs({ key: 'email', schema: z.string().email(), defaultValue: 'nope' });
+
+    expect(define).toThrow(StorageValidationError);
+    expect(define).toThrow(/default value of "email"/);
+  });
+
+  it('should not call a factory at definition time', () => {
+    const factory = vi.fn(() => 'nope');
+
+    expect(() =>
+      zs({ key: 'email', schema: z.string().email(), defaultValue: factory })
+    ).not.toThrow();
+    expect(factory).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, expectTypeOf, vi } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../zs';
+import { createZodStorage } from '../zodStorage';
+import { defineStorage, StorageNames } from '../defineStorage';
+import { ZodStorageError } from '../errors';
+
+describe('defineStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  const theme = zs({ key: 'theme', schema: z.enum(['light', 'dark']), defaultValue: 'light' });
+  const user = zs({
+    key: 'user',
+    schema: z.object({ name: z.string() }).nullable(),
+    defaultValue: null,
+  });
+
+  it('should expose typed accessors per entry', () => {
+    const store = defineStorage({ theme, user });
+
+    expect(store.theme.set('dark')).toBe(true);
+    expect(store.theme.get()).toBe('dark');
+    expect(store.theme.entry).toBe(theme);
+
+    store.user.set({ name: 'John' });
+    store.user.patch({ name: 'Jane' });
+    expect(store.user.get()).toEqual({ name: 'Jane' });
+
+    expectTypeOf(store.theme.get()).toEqualTypeOf<'light' | 'dark' | null>();
+    expectTypeOf(store.user.ensure()).toEqualTypeOf<{ name: string } | null>();
+  });
+
+  it('should expose the union of registered names', () => {
+    const store = defineStorage({ theme, user });
+
+    expectTypeOf<StorageNames<typeof store>>().toEqualTypeOf<'theme' | 'user'>();
+    expect(store.names).toEqual(['theme', 'user']);
+  });
+
+  it('should get, init and clear every entry', () => {
+    const store = defineStorage({ theme, user });
+
+    expect(store.getAll()).toEqual({ theme: null, user: null });
+
+    store.initAll();
+    expect(localStorage.getItem('theme')).toBe('"light"');
+    expect(store.getAll()).toEqual({ theme: 'light', user: null });
+
+    store.theme.set('dark');
+    expect(store.getAll().theme).toBe('dark');
+
+    store.clearAll();
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('should notify subscribers of an entry', () => {
+    const store = defineStorage({ theme });
+    const listener = vi.fn();
+
+    const unsubscribe = store.theme.subscribe(listener);
+    store.theme.set('dark');
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith('dark');
+  });
+
+  it('should use the given instance', () => {
+    const store = defineStorage({ theme }, { instance: createZodStorage({ namespace: 'app' }) });
+
+    store.theme.set('dark');
+
+    expect(localStorage.getItem('app:theme')).toBe('"dark"');
+  });
+
+  it('should throw when two entries share the same key and storage', () => {
+    const duplicate = zs({ key: 'theme', schema: z.string(), defaultValue: '' });
+
+    expect(() => defineStorage({ theme, duplicate })).toThrow(ZodStorageError);
+    expect(() => defineStorage({ theme, duplicate })).toThrow(
+      'Entries "theme" and "duplicate" both use the key "theme" in the same storage'
+    );
+  });
+
+  it('should allow the same key in different storages', () => {
+    const sessionTheme = zs({
+      key: 'theme',
+      schema: z.enum(['light', 'dark']),
+      defaultValue: 'light',
+      storage: 'session',
+    });
+
+    expect(() => defineStorage({ theme, sessionTheme })).not.toThrow();
+  });
+
+  it('should compare entries without a storage with the instance default', () => {
+    const instance = createZodStorage({ storage: 'session' });
+    const sessionTheme = zs({
+      key: 'theme',
+      schema: z.string(),
+      defaultValue: '',
+      storage: 'session',
+    });
+    const localTheme = zs({ key: 'theme', schema: z.string(), defaultValue: '', storage: 'local' });
+
+    expect(() => defineStorage({ theme, sessionTheme }, { instance })).toThrow(
+      'Entries "theme" and "sessionTheme" both use the key "theme" in the same storage'
+    );
+    expect(() => defineStorage({ theme, localTheme }, { instance })).not.toThrow();
+  });
+
+  it('should reject reserved names', () => {
+    expect(() => defineStorage({ getAll: theme })).toThrow(/reserved/);
+  });
+});
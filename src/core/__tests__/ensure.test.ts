@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, expectTypeOf } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../zs';
+import { zodStorage } from '../zodStorage';
+import { createMemoryStorage } from '../../adapters/memoryStorage';
+import { StorageAdapter } from '@/types/type';
+
+describe('ensure', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const theme = zs({ key: 'theme', schema: z.enum(['light', 'dark']), defaultValue: 'light' });
+  const count = zs({ key: 'count', schema: z.number(), defaultValue: 0 });
+
+  it('should return the stored value without overwriting it', () => {
+    zodStorage.set(theme, 'dark');
+
+    expect(zodStorage.ensure(theme)).toBe('dark');
+    expect(localStorage.getItem('theme')).toBe('"dark"');
+  });
+
+  it('should write defaultValue when the value is missing', () => {
+    expect(zodStorage.ensure(theme)).toBe('light');
+    expect(localStorage.getItem('theme')).toBe('"light"');
+  });
+
+  it('should write defaultValue when the value is invalid or corrupt', () => {
+    localStorage.setItem('theme', '"blue"');
+    localStorage.setItem('count', '{corrupt');
+
+    expect(zodStorage.ensure(theme)).toBe('light');
+    expect(zodStorage.ensure(count)).toBe(0);
+    expect(localStorage.getItem('theme')).toBe('"light"');
+    expect(localStorage.getItem('count')).toBe('0');
+  });
+
+  it('should not write when the storage cannot be read', () => {
+    const memory = createMemoryStorage({ blocked: '"dark"' });
+    const blocked: StorageAdapter = {
+      ...memory,
+      getItem: () => {
+        throw new Error('Access denied');
+      },
+    };
+
+    expect(zodStorage.ensure({ ...theme, key: 'blocked', storage: blocked })).toBe('light');
+    expect(memory.getItem('blocked')).toBe('"dark"');
+  });
+
+  it('should ensure many entries at once', () => {
+    zodStorage.set(count, 5);
+
+    const values = zodStorage.ensureAll([theme, count]);
+
+    expectTypeOf(values).toEqualTypeOf<['light' | 'dark', number]>();
+    expect(values).toEqual(['light', 5]);
+    expect(localStorage.getItem('theme')).toBe('"light"');
+  });
+
+  it('should not overwrite values written by a newer schema version', async () => {
+    const settings = zs({ key: 'settings', schema: z.number(), defaultValue: 0, version: 1 });
+    const newer = JSON.stringify({ __zs: { version: 2 }, value: { size: 16 } });
+    localStorage.setItem('settings', newer);
+
+    expect(zodStorage.ensure(settings)).toBe(0);
+    expect(await zodStorage.async.ensure(settings)).toBe(0);
+    expect(localStorage.getItem('settings')).toBe(newer);
+  });
+
+  it('should ensure entries through the async API', async () => {
+    const memory = createMemoryStorage({ count: '7' });
+
+    expect(
+      await zodStorage.async.ensureAll([
+        { ...theme, storage: memory },
+        { ...count, storage: memory },
+      ])
+    ).toEqual(['light', 7]);
+    expect(memory.getItem('theme')).toBe('"light"');
+    expect(await zodStorage.async.ensure({ ...theme, storage: memory })).toBe('light');
+  });
+});
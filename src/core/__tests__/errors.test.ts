@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z, ZodError } from 'zod';
+import { zs } from '../zs';
+import { zodStorage } from '../zodStorage';
+import {
+  StorageParseError,
+  StorageQuotaError,
+  StorageUnavailableError,
+  StorageValidationError,
+  ZodStorageError,
+} from '../errors';
+import { createMemoryStorage } from '../../adapters/memoryStorage';
+import { StorageAdapter } from '@/types/type';
+
+const catchError = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (err) {
+    return err;
+  }
+
+  throw new Error('Expected an error to be thrown');
+};
+
+describe('errors', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const user = zs({
+    key: 'user',
+    schema: z.object({ name: z.string(), age: z.number() }),
+    defaultValue: { name: '', age: 0 },
+  });
+
+  it('should throw a StorageValidationError keeping the ZodError', () => {
+    localStorage.setItem('user', '{"name":"John","age":"30"}');
+
+    const err = catchError(() => zodStorage.get(user, { onFailure: 'throw' }));
+
+    expect(err).toBeInstanceOf(StorageValidationError);
+    expect(err).toBeInstanceOf(ZodStorageError);
+
+    const validationError = err as StorageValidationError;
+    expect(validationError.key).toBe('user');
+    expect(validationError.storage).toBe('local');
+    expect(validationError.raw).toBe('{"name":"John","age":"30"}');
+    expect(validationError.cause).toBeInstanceOf(ZodError);
+    expect(validationError.issues[0].path).toEqual(['age']);
+    expect(validationError.message).toContain('age');
+  });
+
+  it('should throw a StorageValidationError from set with onInvalid: throw', () => {
+    const err = catchError(() =>
+      zodStorage.set(user, { name: 'John', age: '30' as unknown as number }, { onInvalid: 'throw' })
+    );
+
+    expect(err).toBeInstanceOf(StorageValidationError);
+
+    const validationError = err as StorageValidationError;
+    expect(validationError.key).toBe('user');
+    expect(validationError.storage).toBe('local');
+    expect(validationError.raw).toBeNull();
+    expect(validationError.cause).toBeInstanceOf(ZodError);
+    expect(validationError.issues[0].path).toEqual(['age']);
+  });
+
+  it('should throw a StorageParseError keeping the original error', () => {
+    localStorage.setItem('user', '{not json');
+
+    const err = catchError(() => zodStorage.get(user, { onFailure: 'throw' }));
+
+    expect(err).toBeInstanceOf(StorageParseError);
+    expect((err as StorageParseError).raw).toBe('{not json');
+    expect((err as StorageParseError).cause).toBeInstanceOf(SyntaxError);
+  });
+
+  it('should throw a StorageUnavailableError when the storage cannot be read', () => {
+    const blocked: StorageAdapter = {
+      ...createMemoryStorage(),
+      getItem: () => {
+        throw new Error('Access denied');
+      },
+    };
+    const entry = zs({ key: 'blocked', schema: z.string(), defaultValue: '', storage: blocked });
+
+    const err = catchError(() => zodStorage.get(entry, { onFailure: 'throw' }));
+
+    expect(err).toBeInstanceOf(StorageUnavailableError);
+    expect((err as StorageUnavailableError).storage).toBe(blocked);
+    expect((err as StorageUnavailableError).key).toBe('blocked');
+  });
+
+  it('should throw a StorageQuotaError when the storage is full', async () => {
+    const full: StorageAdapter = {
+      ...createMemoryStorage(),
+      setItem: () => {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      },
+    };
+    const entry = zs({ key: 'big', schema: z.string(), defaultValue: '', storage: full });
+
+    const err = catchError(() => zodStorage.set(entry, 'x'));
+
+    expect(err).toBeInstanceOf(StorageQuotaError);
+    expect((err as StorageQuotaError).key).toBe('big');
+    expect((err as StorageQuotaError).cause).toBeInstanceOf(DOMException);
+    await expect(zodStorage.async.set(entry, 'x')).rejects.toBeInstanceOf(StorageQuotaError);
+  });
+
+  it('should rethrow other write errors unchanged', () => {
+    const failing: StorageAdapter = {
+      ...createMemoryStorage(),
+      setItem: () => {
+        throw new TypeError('Broken');
+      },
+    };
+    const entry = zs({ key: 'x', schema: z.string(), defaultValue: '', storage: failing });
+
+    expect(() => zodStorage.set(entry, 'x')).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, expectTypeOf } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../zs';
+import { createZodStorage, zodStorage } from '../zodStorage';
+import { StorageValidationError, ZodStorageError } from '../errors';
+import { createMemoryStorage } from '../../adapters/memoryStorage';
+
+describe('zs.family', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const DraftData = zs.family({
+    key: (id: string) => `draft:${id}`,
+    schema: z.string(),
+    defaultValue: '',
+  });
+
+  it('should create member entries with the shared schema', () => {
+    const draft = DraftData('doc-1');
+
+    expect(draft.key).toBe('draft:doc-1');
+    expect(zodStorage.set(draft, 'Hello')).toBe(true);
+    expect(zodStorage.get(DraftData('doc-1'))).toBe('Hello');
+    expect(zodStorage.set(DraftData('doc-2'), 1 as unknown as string)).toBe(false);
+  });
+
+  it('should return the same entry for the same id', () => {
+    expect(DraftData('doc-1')).toBe(DraftData('doc-1'));
+  });
+
+  it('should list the ids of the members in storage', () => {
+    zodStorage.set(DraftData('doc-1'), 'a');
+    zodStorage.set(DraftData('doc:2'), 'b');
+    localStorage.setItem('draft:', '""');
+    localStorage.setItem('other', '""');
+
+    expect(DraftData.keys().sort()).toEqual(['doc-1', 'doc:2']);
+  });
+
+  it('should support keys with a suffix', () => {
+    const CacheData = zs.family({
+      key: (userId: string) => `user:${userId}:cache`,
+      schema: z.array(z.number()),
+      defaultValue: [],
+    });
+
+    zodStorage.set(CacheData('42'), [1]);
+    localStorage.setItem('user:42:profile', '{}');
+
+    expect(CacheData.keys()).toEqual(['42']);
+  });
+
+  it('should ignore keys the key function would not build', () => {
+    const PageData = zs.family({
+      key: (id: string) => `page:${id.toLowerCase()}`,
+      schema: z.number(),
+      defaultValue: 0,
+    });
+
+    localStorage.setItem('page:home', '1');
+    localStorage.setItem('page:About', '2');
+
+    expect(PageData.keys()).toEqual(['home']);
+  });
+
+  it('should read every member in storage', () => {
+    zodStorage.set(DraftData('doc-1'), 'a');
+    localStorage.setItem('draft:doc-2', '1');
+
+    const drafts = DraftData.getAll();
+
+    expectTypeOf(drafts).toEqualTypeOf<Partial<Record<string, string | null>>>();
+    expect(drafts).toEqual({ 'doc-1': 'a', 'doc-2': null });
+    expect(DraftData.getAll({ onFailure: 'default' })).toEqual({ 'doc-1': 'a', 'doc-2': '' });
+  });
+
+  it('should clear every member and leave other keys untouched', () => {
+    zodStorage.set(DraftData('doc-1'), 'a');
+    zodStorage.set(DraftData('doc-2'), 'b');
+    localStorage.setItem('other', '1');
+
+    DraftData.clearAll();
+
+    expect(DraftData.keys()).toEqual([]);
+    expect(localStorage.getItem('other')).toBe('1');
+  });
+
+  it('should use the storage and instance of the family', () => {
+    const memory = createMemoryStorage();
+    const checkoutStorage = createZodStorage({ namespace: 'checkout' });
+    const CartData = zs.family(
+      { key: (id: string) => `cart:${id}`, schema: z.number(), defaultValue: 0, storage: memory },
+      { instance: checkoutStorage }
+    );
+
+    checkoutStorage.set(CartData('a'), 1);
+
+    expect(memory.getItem('checkout:cart:a')).toBe('1');
+    expect(CartData.keys()).toEqual(['a']);
+    expect(CartData.getAll()).toEqual({ a: 1 });
+  });
+
+  it('should throw if the key function does not include the id exactly once', () => {
+    expect(() => zs.family({ key: () => 'fixed', schema: z.string(), defaultValue: '' })).toThrow(
+      ZodStorageError
+    );
+    expect(() =>
+      zs.family({ key: (id: string) => `${id}:${id}`, schema: z.string(), defaultValue: '' })
+    ).toThrow(ZodStorageError);
+  });
+
+  it('should validate the default value when the family is created', () => {
+    expect(() =>
+      zs.family({
+        key: (id: string) => `draft:${id}`,
+        schema: z.string(),
+        defaultValue: 1 as never,
+      })
+    ).toThrow(StorageValidationError);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../zs';
+import { zodStorage } from '../zodStorage';
+import { createMemoryStorage } from '../../adapters/memoryStorage';
+import { StorageAdapter } from '@/types/type';
+
+const envelope = (version: number, value: unknown) => JSON.stringify({ __zs: { version }, value });
+
+describe('versioned schemas', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const settingsV3 = zs({
+    key: 'settings',
+    schema: z.object({
+      theme: z.enum(['light', 'dark']),
+      fontSize: z.number(),
+      notifications: z.object({ email: z.boolean() }),
+    }),
+    defaultValue: { theme: 'light', fontSize: 14, notifications: { email: true } },
+    version: 3,
+    migrations: {
+      // v0 (unversioned): a plain theme string
+      0: (value) => ({ theme: value }),
+      // v1: add fontSize
+      1: (value) => ({ ...(value as object), fontSize: 14 }),
+      // v2: boolean emails -> notifications object
+      2: (value) => {
+        const { emails, ...rest } = value as { emails?: boolean };
+        return { ...rest, notifications: { email: emails ?? true } };
+      },
+    },
+  });
+
+  it('should persist the version alongside the value', () => {
+    zodStorage.set(settingsV3, {
+      theme: 'dark',
+      fontSize: 16,
+      notifications: { email: false },
+    });
+
+    expect(localStorage.getItem('settings')).toBe(
+      envelope(3, { theme: 'dark', fontSize: 16, notifications: { email: false } })
+    );
+    expect(zodStorage.get(settingsV3)).toEqual({
+      theme: 'dark',
+      fontSize: 16,
+      notifications: { email: false },
+    });
+  });
+
+  it('should keep the plain format for unversioned entries', () => {
+    const plain = zs({ key: 'plain', schema: z.number(), defaultValue: 0 });
+
+    zodStorage.set(plain, 1);
+    expect(localStorage.getItem('plain')).toBe('1');
+  });
+
+  it.each([
+    { __zs: {}, value: 5 },
+    { __zs: { expiresAt: 1 }, value: 5 },
+  ])('should round-trip values shaped like an envelope (%o)', (value) => {
+    const entry = zs({
+      key: 'shaped',
+      schema: z.object({ __zs: z.object({ expiresAt: z.number().optional() }), value: z.number() }),
+      defaultValue: { __zs: {}, value: 0 },
+    });
+
+    expect(zodStorage.set(entry, value)).toBe(true);
+    expect(zodStorage.safeGet(entry)).toEqual({ success: true, data: value });
+  });
+
+  it('should run every migration from an unversioned value', () => {
+    localStorage.setItem('settings', JSON.stringify('dark'));
+
+    expect(zodStorage.get(settingsV3)).toEqual({
+      theme: 'dark',
+      fontSize: 14,
+      notifications: { email: true },
+    });
+  });
+
+  it('should run only the remaining migrations from an intermediate version', () => {
+    localStorage.setItem('settings', envelope(2, { theme: 'light', fontSize: 20, emails: false }));
+
+    expect(zodStorage.get(settingsV3)).toEqual({
+      theme: 'light',
+      fontSize: 20,
+      notifications: { email: false },
+    });
+  });
+
+  it('should rewrite the upgraded value', () => {
+    localStorage.setItem('settings', envelope(1, { theme: 'dark' }));
+
+    zodStorage.get(settingsV3);
+    expect(localStorage.getItem('settings')).toBe(
+      envelope(3, { theme: 'dark', fontSize: 14, notifications: { email: true } })
+    );
+  });
+
+  it('should return the migrated value when the rewrite fails', async () => {
+    const full: StorageAdapter = {
+      ...createMemoryStorage({ settings: envelope(1, { theme: 'dark' }) }),
+      setItem: () => {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      },
+    };
+    const entry = { ...settingsV3, storage: full };
+    const migrated = { theme: 'dark', fontSize: 14, notifications: { email: true } };
+
+    expect(zodStorage.safeGet(entry)).toEqual({ success: true, data: migrated });
+    expect(zodStorage.get(entry, { onFailure: 'null' })).toEqual(migrated);
+    expect(await zodStorage.async.get(entry)).toEqual(migrated);
+    expect(full.getItem('settings')).toBe(envelope(1, { theme: 'dark' }));
+  });
+
+  it('should treat missing migration steps as unchanged values', () => {
+    const counter = zs({ key: 'counter', schema: z.number(), defaultValue: 0, version: 2 });
+
+    localStorage.setItem('counter', envelope(1, 5));
+    expect(zodStorage.get(counter)).toBe(5);
+  });
+
+  it('should fail when a migration throws', () => {
+    const broken = zs({
+      key: 'broken',
+      schema: z.number(),
+      defaultValue: 0,
+      version: 1,
+      migrations: {
+        0: () => {
+          throw new Error('cannot migrate');
+        },
+      },
+    });
+
+    localStorage.setItem('broken', '5');
+
+    expect(zodStorage.get(broken)).toBeNull();
+    expect(zodStorage.get(broken, { onFailure: 'default' })).toBe(0);
+    expect(() => zodStorage.get(broken, { onFailure: 'throw' })).toThrow('cannot migrate');
+    expect(localStorage.getItem('broken')).toBe('5');
+  });
+
+  it('should fail when the migrated value does not match the schema', () => {
+    localStorage.setItem('settings', envelope(2, { theme: 'purple', fontSize: 14 }));
+
+    expect(zodStorage.get(settingsV3)).toBeNull();
+    expect(localStorage.getItem('settings')).toBe(envelope(2, { theme: 'purple', fontSize: 14 }));
+  });
+
+  it('should fail when the stored version is newer than the schema', () => {
+    localStorage.setItem(
+      'settings',
+      envelope(4, { theme: 'dark', fontSize: 14, notifications: { email: true } })
+    );
+
+    expect(zodStorage.get(settingsV3)).toBeNull();
+    expect(() => zodStorage.get(settingsV3, { onFailure: 'throw' })).toThrow(/newer/);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../zs';
+import { createZodStorage, zodStorage } from '../zodStorage';
+import { StorageQuotaError } from '../errors';
+import { createMemoryStorage } from '../../adapters/memoryStorage';
+import { StorageAdapter } from '@/types/type';
+
+/**
+ * Memory storage throwing a QuotaExceededError once keys and values exceed `limit` characters
+ */
+const createLimitedStorage = (limit: number): StorageAdapter => {
+  const memory = createMemoryStorage();
+
+  return {
+    ...memory,
+    setItem: (key, value) => {
+      const used = memory
+        .keys()
+        .filter((storedKey) => storedKey !== key)
+        .reduce(
+          (total, storedKey) => total + storedKey.length + memory.getItem(storedKey)!.length,
+          0
+        );
+
+      if (used + key.length + value.length > limit) {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      }
+
+      memory.setItem(key, value);
+    },
+  };
+};
+
+describe('quota handling', () => {
+  let storage: StorageAdapter;
+
+  beforeEach(() => {
+    storage = createLimitedStorage(400);
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const cache = (key: string, options: { priority?: number; ttl?: number } = {}) =>
+    zs({ key, schema: z.string(), defaultValue: '', storage, evictable: true, ...options });
+
+  const settings = () => zs({ key: 'settings', schema: z.string(), defaultValue: '', storage });
+
+  it('should throw a StorageQuotaError by default', () => {
+    expect(() => zodStorage.set(settings(), 'x'.repeat(500))).toThrow(StorageQuotaError);
+  });
+
+  it('should leave storage untouched with onQuotaExceeded: skip', () => {
+    zodStorage.set(settings(), 'small');
+
+    expect(zodStorage.set(settings(), 'x'.repeat(500), { onQuotaExceeded: 'skip' })).toBe(false);
+    expect(zodStorage.get(settings())).toBe('small');
+  });
+
+  it('should store eviction metadata alongside evictable values', () => {
+    zodStorage.set(cache('a', { priority: 2 }), 'value');
+
+    expect(JSON.parse(storage.getItem('a')!)).toEqual({
+      __zs: { evictable: true, priority: 2, accessedAt: Date.now() },
+      value: 'value',
+    });
+    expect(zodStorage.get(cache('a'))).toBe('value');
+  });
+
+  it('should evict the lowest priority entries until the write fits', () => {
+    zodStorage.set(cache('low', { priority: 0 }), 'x'.repeat(100));
+    zodStorage.set(cache('high', { priority: 1 }), 'x'.repeat(100));
+
+    expect(zodStorage.set(settings(), 'x'.repeat(100), { onQuotaExceeded: 'evict' })).toBe(true);
+    expect(storage.getItem('low')).toBeNull();
+    expect(storage.getItem('high')).not.toBeNull();
+    expect(zodStorage.get(settings())).toBe('x'.repeat(100));
+  });
+
+  it('should never evict entries that are not evictable or have a higher priority', () => {
+    zodStorage.set(settings(), 'x'.repeat(100));
+    zodStorage.set(cache('important', { priority: 5 }), 'x'.repeat(100));
+
+    expect(() =>
+      zodStorage.set(cache('other', { priority: 1 }), 'x'.repeat(100), { onQuotaExceeded: 'evict' })
+    ).toThrow(StorageQuotaError);
+    expect(storage.getItem('settings')).not.toBeNull();
+    expect(storage.getItem('important')).not.toBeNull();
+  });
+
+  it('should evict the least recently used entries with eviction: lru', () => {
+    zodStorage.set(cache('first', { priority: 0 }), 'x'.repeat(100));
+    vi.advanceTimersByTime(1000);
+    zodStorage.set(cache('second', { priority: 1 }), 'x'.repeat(100));
+    vi.advanceTimersByTime(1000);
+
+    // Reading "first" makes "second" the least recently used
+    zodStorage.get(cache('first'));
+
+    zodStorage.set(cache('third', { priority: 1 }), 'x'.repeat(100), {
+      onQuotaExceeded: 'evict',
+      eviction: 'lru',
+    });
+
+    expect(storage.getItem('first')).not.toBeNull();
+    expect(storage.getItem('second')).toBeNull();
+    expect(storage.getItem('third')).not.toBeNull();
+  });
+
+  it('should evict expired entries first with eviction: expired-first', () => {
+    zodStorage.set(cache('fresh', { priority: 0 }), 'x'.repeat(100));
+    zodStorage.set(cache('stale', { priority: 1, ttl: 1000 }), 'x'.repeat(100));
+    vi.advanceTimersByTime(2000);
+
+    zodStorage.set(cache('next', { priority: 1 }), 'x'.repeat(100), {
+      onQuotaExceeded: 'evict',
+      eviction: 'expired-first',
+    });
+
+    expect(storage.getItem('fresh')).not.toBeNull();
+    expect(storage.getItem('stale')).toBeNull();
+  });
+
+  it('should use the instance quota policy by default', async () => {
+    const instance = createZodStorage({ onQuotaExceeded: 'evict' });
+
+    instance.set(cache('old'), 'x'.repeat(100));
+
+    expect(instance.set(settings(), 'x'.repeat(250))).toBe(true);
+    expect(storage.getItem('old')).toBeNull();
+    expect(await instance.async.set(settings(), 'y'.repeat(250))).toBe(true);
+  });
+
+  it('should notify subscribers of evicted entries', () => {
+    const listener = vi.fn();
+    zodStorage.set(cache('old'), 'x'.repeat(100));
+    zodStorage.subscribe(cache('old'), listener);
+
+    zodStorage.set(settings(), 'x'.repeat(250), { onQuotaExceeded: 'evict' });
+
+    expect(listener).toHaveBeenCalledWith(null);
+  });
+});
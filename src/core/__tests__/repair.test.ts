@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../zs';
+import { zodStorage } from '../zodStorage';
+import { createMemoryStorage } from '../../adapters/memoryStorage';
+import { SafeStorageRepairReport, StorageAdapter } from '@/types/type';
+
+describe('repair', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const settings = zs({
+    key: 'settings',
+    schema: z.object({
+      theme: z.enum(['light', 'dark']),
+      fontSize: z.number(),
+      bookmarks: z.array(z.object({ url: z.string().url(), title: z.string() })),
+      nickname: z.string().optional(),
+    }),
+    defaultValue: { theme: 'light' as const, fontSize: 14, bookmarks: [] },
+  });
+
+  const store = (value: unknown) => localStorage.setItem('settings', JSON.stringify(value));
+
+  it('should fall back per field to defaultValue', () => {
+    store({ theme: 'purple', fontSize: 18, bookmarks: [] });
+
+    expect(zodStorage.get(settings, { onFailure: 'repair' })).toEqual({
+      theme: 'light',
+      fontSize: 18,
+      bookmarks: [],
+    });
+  });
+
+  it('should drop invalid array elements', () => {
+    store({
+      theme: 'dark',
+      fontSize: 12,
+      bookmarks: [
+        { url: 'https://a.example', title: 'A' },
+        { url: 'not a url', title: 'B' },
+        { url: 'https://c.example', title: 3 },
+        { url: 'https://d.example', title: 'D' },
+      ],
+    });
+
+    expect(zodStorage.get(settings, { onFailure: 'repair' })?.bookmarks).toEqual([
+      { url: 'https://a.example', title: 'A' },
+      { url: 'https://d.example', title: 'D' },
+    ]);
+  });
+
+  it('should remove invalid optional fields missing from defaultValue', () => {
+    store({ theme: 'dark', fontSize: 12, bookmarks: [], nickname: 42 });
+
+    expect(zodStorage.get(settings, { onFailure: 'repair' })).toEqual({
+      theme: 'dark',
+      fontSize: 12,
+      bookmarks: [],
+    });
+  });
+
+  it('should strip unknown keys of strict objects', () => {
+    const strict = zs({
+      key: 'strict',
+      schema: z.object({ a: z.number() }).strict(),
+      defaultValue: { a: 0 },
+    });
+    localStorage.setItem('strict', '{"a":1,"extra":true}');
+
+    expect(zodStorage.get(strict, { onFailure: 'repair' })).toEqual({ a: 1 });
+  });
+
+  it('should write the repaired value back and report the changes', () => {
+    const onRepair = vi.fn();
+    store({ theme: 'purple', fontSize: 18, bookmarks: [{ url: 'x', title: 'X' }] });
+
+    zodStorage.get(settings, { onFailure: 'repair', onRepair });
+
+    expect(JSON.parse(localStorage.getItem('settings')!)).toEqual({
+      theme: 'light',
+      fontSize: 18,
+      bookmarks: [],
+    });
+    const [report] = onRepair.mock.calls[0] as [SafeStorageRepairReport];
+    expect(report.key).toBe('settings');
+    expect(report.changes).toEqual([
+      { path: ['theme'], action: 'default' },
+      { path: ['bookmarks', 0], action: 'drop' },
+    ]);
+    expect(report.issues).toHaveLength(2);
+  });
+
+  it('should keep the expiry of a repaired value', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+    const expiresAt = Date.now() + 1000;
+    localStorage.setItem(
+      'settings',
+      JSON.stringify({
+        __zs: { expiresAt },
+        value: { theme: 'purple', fontSize: 18, bookmarks: [] },
+      })
+    );
+
+    zodStorage.get(settings, { onFailure: 'repair' });
+
+    expect(JSON.parse(localStorage.getItem('settings')!)).toEqual({
+      __zs: { expiresAt },
+      value: { theme: 'light', fontSize: 18, bookmarks: [] },
+    });
+
+    vi.advanceTimersByTime(1000);
+    expect(zodStorage.get(settings, { onFailure: 'repair' })).toBeNull();
+    vi.useRealTimers();
+  });
+
+  it('should return the repaired value when the write-back fails', async () => {
+    const stored = '{"theme":"purple","fontSize":18,"bookmarks":[]}';
+    const full: StorageAdapter = {
+      ...createMemoryStorage({ settings: stored }),
+      setItem: () => {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      },
+    };
+    const entry = { ...settings, storage: full };
+    const repaired = { theme: 'light', fontSize: 18, bookmarks: [] };
+
+    expect(zodStorage.get(entry, { onFailure: 'repair' })).toEqual(repaired);
+    expect(await zodStorage.async.get(entry, { onFailure: 'repair' })).toEqual(repaired);
+    expect(full.getItem('settings')).toBe(stored);
+  });
+
+  it('should retry when a repair surfaces new issues', () => {
+    const tags = zs({ key: 'tags', schema: z.array(z.string()).min(1), defaultValue: ['default'] });
+    localStorage.setItem('tags', '[1]');
+
+    expect(zodStorage.get(tags, { onFailure: 'repair' })).toEqual(['default']);
+  });
+
+  it('should return defaultValue when the value cannot be parsed', () => {
+    localStorage.setItem('settings', '{corrupt');
+
+    expect(zodStorage.get(settings, { onFailure: 'repair' })).toEqual(settings.defaultValue);
+    expect(localStorage.getItem('settings')).toBe('{corrupt');
+  });
+
+  it('should repair through the async API', async () => {
+    const memory = createMemoryStorage();
+    const entry = { ...settings, storage: memory };
+    memory.setItem('settings', '{"theme":"dark","fontSize":"big","bookmarks":[]}');
+
+    expect(await zodStorage.async.get(entry, { onFailure: 'repair' })).toEqual({
+      theme: 'dark',
+      fontSize: 14,
+      bookmarks: [],
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z, ZodError } from 'zod';
+import { zs } from '../zs';
+import { zodStorage } from '../zodStorage';
+import { StorageParseError } from '../errors';
+import { createMemoryStorage } from '../../adapters/memoryStorage';
+import { StorageAdapter } from '@/types/type';
+
+describe('safeGet', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const user = zs({
+    key: 'user',
+    schema: z.object({ name: z.string() }),
+    defaultValue: { name: '' },
+  });
+
+  it('should return the validated value on success', () => {
+    zodStorage.set(user, { name: 'John' });
+
+    expect(zodStorage.safeGet(user)).toEqual({ success: true, data: { name: 'John' } });
+  });
+
+  it('should report a missing value', () => {
+    expect(zodStorage.safeGet(user)).toEqual({
+      success: false,
+      reason: 'missing',
+      error: null,
+      raw: null,
+    });
+  });
+
+  it('should report an expired value as missing', () => {
+    localStorage.setItem(
+      'user',
+      JSON.stringify({ __zs: { expiresAt: 0 }, value: { name: 'John' } })
+    );
+
+    expect(zodStorage.safeGet(user)).toMatchObject({ success: false, reason: 'missing' });
+    expect(localStorage.getItem('user')).toBeNull();
+  });
+
+  it('should report corrupt values as parse failures with the raw string', () => {
+    localStorage.setItem('user', '{not json');
+
+    const result = zodStorage.safeGet(user);
+
+    expect(result).toMatchObject({ success: false, reason: 'parse', raw: '{not json' });
+    expect(!result.success && result.error).toBeInstanceOf(Error);
+  });
+
+  it('should treat a stored empty string as a parse failure, not a missing value', () => {
+    localStorage.setItem('user', '');
+
+    expect(zodStorage.safeGet(user)).toMatchObject({ success: false, reason: 'parse', raw: '' });
+    expect(() => zodStorage.get(user, { onFailure: 'throw' })).toThrow(StorageParseError);
+  });
+
+  it('should report schema mismatches as validation failures', () => {
+    localStorage.setItem('user', '{"name":42}');
+
+    const result = zodStorage.safeGet(user);
+
+    expect(result).toMatchObject({ success: false, reason: 'validation', raw: '{"name":42}' });
+    expect(!result.success && result.error).toBeInstanceOf(ZodError);
+  });
+
+  it('should report a storage that cannot be read as unavailable', () => {
+    const blocked: StorageAdapter = {
+      ...createMemoryStorage(),
+      getItem: () => {
+        throw new Error('Access denied');
+      },
+    };
+    const entry = zs({ key: 'blocked', schema: z.string(), defaultValue: '', storage: blocked });
+
+    const result = zodStorage.safeGet(entry);
+
+    expect(result).toMatchObject({ success: false, reason: 'unavailable', raw: null });
+    expect(!result.success && result.error?.message).toBe('Access denied');
+  });
+
+  it('should not throw even when get would', () => {
+    localStorage.setItem('user', '{"name":42}');
+
+    expect(() => zodStorage.get(user, { onFailure: 'throw' })).toThrow();
+    expect(() => zodStorage.safeGet(user)).not.toThrow();
+  });
+
+  it('should report results asynchronously with async.safeGet', async () => {
+    const memory = createMemoryStorage({ user: '{"name":"John"}', broken: '{' });
+    const entry = zs({
+      key: 'user',
+      schema: z.object({ name: z.string() }),
+      defaultValue: { name: '' },
+      storage: memory,
+    });
+
+    expect(await zodStorage.async.safeGet(entry)).toEqual({
+      success: true,
+      data: { name: 'John' },
+    });
+    expect(await zodStorage.async.safeGet({ ...entry, key: 'broken' })).toMatchObject({
+      success: false,
+      reason: 'parse',
+      raw: '{',
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z, ZodError } from 'zod';
+import { zs } from '../zs';
+import { createZodStorage, zodStorage } from '../zodStorage';
+import { exportSnapshot, importSnapshot } from '../snapshot';
+import { StorageParseError, StorageValidationError, ZodStorageError } from '../errors';
+import { createMemoryStorage } from '../../adapters/memoryStorage';
+import { taggedJsonSerializer } from '../../serializers/taggedJsonSerializer';
+import { AsyncStorageAdapter } from '@/types/type';
+
+describe('snapshots', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const theme = zs({ key: 'theme', schema: z.enum(['light', 'dark']), defaultValue: 'light' });
+  const visits = zs({
+    key: 'visits',
+    schema: z.array(z.date()),
+    defaultValue: [],
+    serializer: taggedJsonSerializer,
+  });
+  const asyncStorage: AsyncStorageAdapter = {
+    async: true,
+    getItem: () => Promise.resolve(null),
+    setItem: () => Promise.resolve(),
+    removeItem: () => Promise.resolve(),
+    keys: () => Promise.resolve([]),
+  };
+  const profile = zs({
+    key: 'profile',
+    schema: z.object({ name: z.string(), age: z.number() }),
+    defaultValue: { name: '', age: 0 },
+    version: 2,
+    migrations: { 1: (value) => ({ ...(value as object), age: 0 }) },
+  });
+
+  describe('exportSnapshot', () => {
+    it('should export valid values into a versioned document', () => {
+      zodStorage.set(theme, 'dark');
+      zodStorage.set(profile, { name: 'John', age: 30 });
+
+      expect(exportSnapshot([theme, profile])).toEqual({
+        format: 'zod-browser-storage/snapshot',
+        version: 1,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        entries: {
+          theme: { value: 'dark' },
+          profile: { version: 2, value: { name: 'John', age: 30 } },
+        },
+      });
+    });
+
+    it('should leave out missing and invalid values', () => {
+      localStorage.setItem('profile', '{"name":1}');
+
+      expect(exportSnapshot({ theme, profile }).entries).toEqual({});
+    });
+
+    it('should leave out entries that cannot be read synchronously', () => {
+      const token = zs({
+        key: 'tok',
+        schema: z.string(),
+        defaultValue: '',
+        encryption: { key: () => Promise.reject(new Error('Not used')) },
+      });
+      const draft = zs({
+        key: 'draft',
+        schema: z.string(),
+        defaultValue: '',
+        storage: asyncStorage,
+      });
+      zodStorage.set(theme, 'dark');
+
+      expect(exportSnapshot({ token, draft, theme }).entries).toEqual({
+        theme: { value: 'dark' },
+      });
+    });
+
+    it('should keep rich types through a JSON round trip', () => {
+      const dates = [new Date('2023-05-01T00:00:00.000Z')];
+      zodStorage.set(visits, dates);
+
+      const document = JSON.stringify(exportSnapshot([visits]));
+      localStorage.clear();
+
+      expect(importSnapshot([visits], document)).toEqual({ visits: { status: 'imported' } });
+      expect(zodStorage.get(visits)).toEqual(dates);
+    });
+  });
+
+  it('should reject entries sharing a key', () => {
+    const sessionTheme = { ...theme, storage: 'session' as const };
+
+    expect(() => exportSnapshot([theme, sessionTheme])).toThrow(ZodStorageError);
+    expect(() => importSnapshot({ theme, sessionTheme }, exportSnapshot([theme]))).toThrow(
+      /"theme"/
+    );
+  });
+
+  describe('importSnapshot', () => {
+    const document = (entries: Record<string, { version?: number; value: unknown }>) => ({
+      format: 'zod-browser-storage/snapshot',
+      version: 1,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      entries,
+    });
+
+    it('should report imported, skipped and rejected keys', () => {
+      const report = importSnapshot(
+        [theme, profile, visits],
+        document({
+          theme: { value: 'dark' },
+          profile: { version: 2, value: { name: 'John' } },
+          legacy: { value: 1 },
+        })
+      );
+
+      expect(report.theme).toEqual({ status: 'imported' });
+      expect(report.visits).toEqual({ status: 'skipped', reason: 'missing' });
+      expect(report.legacy).toEqual({ status: 'skipped', reason: 'unknown' });
+      expect(report.profile.status).toBe('rejected');
+
+      const error = report.profile.status === 'rejected' ? report.profile.error : null;
+      expect(error).toBeInstanceOf(StorageValidationError);
+      expect((error as StorageValidationError).cause).toBeInstanceOf(ZodError);
+
+      expect(zodStorage.get(theme)).toBe('dark');
+      expect(localStorage.getItem('profile')).toBeNull();
+    });
+
+    it('should migrate values exported at an older version', () => {
+      importSnapshot([profile], document({ profile: { version: 1, value: { name: 'John' } } }));
+
+      expect(zodStorage.get(profile)).toEqual({ name: 'John', age: 0 });
+    });
+
+    it('should leave entries missing from the snapshot untouched when merging', () => {
+      zodStorage.set(theme, 'dark');
+
+      importSnapshot(
+        [theme, profile],
+        document({ profile: { version: 2, value: { name: 'A', age: 1 } } })
+      );
+
+      expect(zodStorage.get(theme)).toBe('dark');
+    });
+
+    it('should clear entries missing from the snapshot when replacing', () => {
+      zodStorage.set(theme, 'dark');
+
+      importSnapshot(
+        [theme, profile],
+        document({ profile: { version: 2, value: { name: 'A', age: 1 } } }),
+        {
+          mode: 'replace',
+        }
+      );
+
+      expect(localStorage.getItem('theme')).toBeNull();
+      expect(zodStorage.get(profile)).toEqual({ name: 'A', age: 1 });
+    });
+
+    it('should report entries that could not be cleared when replacing', () => {
+      const draft = zs({
+        key: 'draft',
+        schema: z.string(),
+        defaultValue: '',
+        storage: asyncStorage,
+      });
+
+      const report = importSnapshot([draft, theme], document({ theme: { value: 'dark' } }), {
+        mode: 'replace',
+      });
+
+      expect(report.draft.status).toBe('rejected');
+      expect(report.theme).toEqual({ status: 'imported' });
+      expect(zodStorage.get(theme)).toBe('dark');
+    });
+
+    it('should throw for documents that are not snapshots', () => {
+      expect(() => importSnapshot([theme], { theme: 'dark' })).toThrow(StorageParseError);
+      expect(() => importSnapshot([theme], '{not json')).toThrow(StorageParseError);
+    });
+
+    it('should reject values that could not be written', () => {
+      const full = {
+        ...theme,
+        storage: {
+          ...createMemoryStorage(),
+          setItem: () => {
+            throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+          },
+        },
+      };
+      const snapshot = document({ theme: { value: 'dark' } });
+
+      const instance = createZodStorage({ onQuotaExceeded: 'skip' });
+      const report = importSnapshot([full], snapshot, { instance });
+
+      expect(report.theme.status).toBe('rejected');
+      expect(report.theme.status === 'rejected' && report.theme.error).toBeInstanceOf(
+        ZodStorageError
+      );
+    });
+  });
+});
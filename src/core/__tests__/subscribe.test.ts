@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../zs';
+import { createZodStorage, zodStorage } from '../zodStorage';
+
+/**
+ * Simulates a write from another tab: the value is already in storage when the event fires.
+ */
+const writeFromOtherTab = (
+  key: string,
+  value: string | null,
+  storageArea: Storage = localStorage
+) => {
+  if (value === null) {
+    storageArea.removeItem(key);
+  } else {
+    storageArea.setItem(key, value);
+  }
+
+  window.dispatchEvent(new StorageEvent('storage', { key, newValue: value, storageArea }));
+};
+
+describe('subscribe', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  const theme = zs({
+    key: 'theme',
+    schema: z.enum(['light', 'dark']),
+    defaultValue: 'light',
+  });
+
+  it('should notify on set, clear and init in the same tab', () => {
+    const listener = vi.fn();
+    zodStorage.subscribe(theme, listener);
+
+    zodStorage.set(theme, 'dark');
+    zodStorage.clear(theme);
+    zodStorage.init(theme);
+
+    expect(listener.mock.calls).toEqual([['dark'], [null], ['light']]);
+  });
+
+  it('should not notify when set skips invalid data', () => {
+    const listener = vi.fn();
+    zodStorage.subscribe(theme, listener);
+
+    zodStorage.set(theme, 'purple' as 'dark');
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should not notify other entries', () => {
+    const listener = vi.fn();
+    const other = zs({ key: 'other', schema: z.number(), defaultValue: 0 });
+    zodStorage.subscribe(theme, listener);
+
+    zodStorage.set(other, 1);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should stop notifying after unsubscribe', () => {
+    const listener = vi.fn();
+    const unsubscribe = zodStorage.subscribe(theme, listener);
+
+    unsubscribe();
+    zodStorage.set(theme, 'dark');
+    writeFromOtherTab('theme', '"light"');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should notify with the parsed value on storage events from other tabs', () => {
+    const listener = vi.fn();
+    zodStorage.subscribe(theme, listener);
+
+    writeFromOtherTab('theme', '"dark"');
+    writeFromOtherTab('theme', null);
+
+    expect(listener.mock.calls).toEqual([['dark'], [null]]);
+  });
+
+  it('should ignore storage events for other keys and storage areas', () => {
+    const listener = vi.fn();
+    zodStorage.subscribe(theme, listener);
+
+    writeFromOtherTab('other', '1');
+    writeFromOtherTab('theme', '"dark"', sessionStorage);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should match namespaced keys from other tabs', () => {
+    const listener = vi.fn();
+    const app = createZodStorage({ namespace: 'app' });
+    app.subscribe(theme, listener);
+
+    writeFromOtherTab('theme', '"dark"');
+    writeFromOtherTab('app:theme', '"dark"');
+
+    expect(listener.mock.calls).toEqual([['dark']]);
+  });
+
+  it('should route invalid incoming values through onFailure', () => {
+    const nullListener = vi.fn();
+    const defaultListener = vi.fn();
+    zodStorage.subscribe(theme, nullListener);
+    zodStorage.subscribe(theme, defaultListener, { onFailure: 'default' });
+
+    writeFromOtherTab('theme', '"purple"');
+
+    expect(nullListener).toHaveBeenCalledWith(null);
+    expect(defaultListener).toHaveBeenCalledWith('light');
+  });
+
+  it('should pass failures to onError with onFailure: throw', () => {
+    const listener = vi.fn();
+    const onError = vi.fn();
+    zodStorage.subscribe(theme, listener, { onFailure: 'throw', onError });
+
+    writeFromOtherTab('theme', 'not json');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(expect.any(Error));
+  });
+
+  it('should notify once when a value is repaired on read', () => {
+    const settings = zs({
+      key: 'settings',
+      schema: z.object({ theme: z.enum(['light', 'dark']), fontSize: z.number() }),
+      defaultValue: { theme: 'light' as const, fontSize: 14 },
+    });
+    const calls: unknown[] = [];
+    const repairListener = vi.fn();
+    zodStorage.subscribe(settings, (value) => calls.push(value), { onFailure: 'repair' });
+    zodStorage.subscribe(settings, repairListener, { onFailure: 'repair' });
+
+    writeFromOtherTab('settings', '{"theme":"purple","fontSize":18}');
+
+    expect(calls).toEqual([{ theme: 'light', fontSize: 18 }]);
+    expect(repairListener).toHaveBeenCalledTimes(1);
+    expect(localStorage.getItem('settings')).toBe('{"theme":"light","fontSize":18}');
+  });
+
+  it('should pass errors thrown by the listener to onError and keep notifying', () => {
+    const onError = vi.fn();
+    const listener = vi.fn();
+    zodStorage.subscribe(
+      theme,
+      () => {
+        throw new Error('boom');
+      },
+      { onError }
+    );
+    zodStorage.subscribe(theme, listener);
+
+    expect(zodStorage.set(theme, 'dark')).toBe(true);
+    expect(onError).toHaveBeenCalledWith(new Error('boom'));
+    expect(listener).toHaveBeenCalledWith('dark');
+  });
+
+  it('should rethrow listener errors asynchronously without onError', () => {
+    vi.useFakeTimers();
+    zodStorage.subscribe(theme, () => {
+      throw new Error('boom');
+    });
+
+    expect(() => zodStorage.set(theme, 'dark')).not.toThrow();
+    expect(() => vi.runAllTimers()).toThrow('boom');
+    vi.useRealTimers();
+  });
+});
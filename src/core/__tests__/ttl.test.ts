@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../zs';
+import { zodStorage } from '../zodStorage';
+
+describe('time-to-live', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const cache = zs({
+    key: 'cache',
+    schema: z.array(z.string()),
+    defaultValue: [],
+    ttl: 60_000,
+  });
+
+  it('should store the expiry in an envelope, not in the value', () => {
+    zodStorage.set(cache, ['a']);
+
+    expect(JSON.parse(localStorage.getItem('cache')!)).toEqual({
+      __zs: { expiresAt: Date.now() + 60_000 },
+      value: ['a'],
+    });
+    expect(zodStorage.get(cache)).toEqual(['a']);
+  });
+
+  it('should return the value until it expires', () => {
+    zodStorage.set(cache, ['a']);
+
+    vi.advanceTimersByTime(59_999);
+    expect(zodStorage.get(cache)).toEqual(['a']);
+  });
+
+  it('should treat expired values as missing and remove them', () => {
+    zodStorage.set(cache, ['a']);
+
+    vi.advanceTimersByTime(60_000);
+    expect(zodStorage.get(cache)).toBeNull();
+    expect(localStorage.getItem('cache')).toBeNull();
+  });
+
+  it('should not throw for expired values (onFailure: throw)', () => {
+    zodStorage.set(cache, ['a']);
+
+    vi.advanceTimersByTime(60_000);
+    expect(zodStorage.get(cache, { onFailure: 'throw' })).toBeNull();
+  });
+
+  it('should override the entry ttl per call', () => {
+    zodStorage.set(cache, ['a'], { ttl: 1_000 });
+
+    vi.advanceTimersByTime(1_000);
+    expect(zodStorage.get(cache)).toBeNull();
+  });
+
+  it('should support ttl on entries without a configured ttl', () => {
+    const plain = zs({ key: 'plain', schema: z.number(), defaultValue: 0 });
+
+    zodStorage.set(plain, 1, { ttl: 500 });
+    expect(zodStorage.get(plain)).toBe(1);
+
+    vi.advanceTimersByTime(500);
+    expect(zodStorage.get(plain)).toBeNull();
+  });
+
+  it('should combine with versions and keep the expiry on migration', () => {
+    const versioned = zs({
+      key: 'versioned',
+      schema: z.object({ count: z.number() }),
+      defaultValue: { count: 0 },
+      version: 1,
+      migrations: { 0: (count) => ({ count }) },
+      ttl: 10_000,
+    });
+
+    localStorage.setItem(
+      'versioned',
+      JSON.stringify({ __zs: { expiresAt: Date.now() + 5_000 }, value: 3 })
+    );
+
+    expect(zodStorage.get(versioned)).toEqual({ count: 3 });
+    expect(JSON.parse(localStorage.getItem('versioned')!)).toEqual({
+      __zs: { version: 1, expiresAt: Date.now() + 5_000 },
+      value: { count: 3 },
+    });
+
+    vi.advanceTimersByTime(5_000);
+    expect(zodStorage.get(versioned)).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../zs';
+import { zodStorage } from '../zodStorage';
+import { StorageValidationError } from '../errors';
+import { createMemoryStorage } from '../../adapters/memoryStorage';
+
+describe('update and patch', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const counter = zs({ key: 'counter', schema: z.number().int().min(0), defaultValue: 0 });
+
+  const settings = zs({
+    key: 'settings',
+    schema: z.object({
+      theme: z.enum(['light', 'dark']),
+      tags: z.array(z.string()),
+      notifications: z.object({ email: z.boolean(), push: z.boolean() }),
+    }),
+    defaultValue: {
+      theme: 'light' as const,
+      tags: ['a'],
+      notifications: { email: true, push: true },
+    },
+  });
+
+  describe('update', () => {
+    it('should write the value returned by the updater', () => {
+      zodStorage.set(counter, 1);
+
+      expect(zodStorage.update(counter, (count) => count + 1)).toBe(true);
+      expect(zodStorage.get(counter)).toBe(2);
+    });
+
+    it('should start from defaultValue when the value is missing', () => {
+      zodStorage.update(counter, (count) => count + 1);
+
+      expect(zodStorage.get(counter)).toBe(1);
+    });
+
+    it('should start from defaultValue when the stored value is invalid', () => {
+      localStorage.setItem('counter', '"nope"');
+
+      zodStorage.update(counter, (count) => count + 5);
+
+      expect(zodStorage.get(counter)).toBe(5);
+    });
+
+    it('should validate the result before writing', () => {
+      zodStorage.set(counter, 1);
+
+      expect(zodStorage.update(counter, (count) => count - 10)).toBe(false);
+      expect(zodStorage.get(counter)).toBe(1);
+      expect(() => zodStorage.update(counter, () => -1, { onInvalid: 'throw' })).toThrow(
+        StorageValidationError
+      );
+    });
+  });
+
+  describe('patch', () => {
+    it('should deep-merge plain objects and replace arrays', () => {
+      zodStorage.set(settings, {
+        theme: 'dark',
+        tags: ['a', 'b'],
+        notifications: { email: true, push: true },
+      });
+
+      zodStorage.patch(settings, { tags: ['c'], notifications: { email: false } });
+
+      expect(zodStorage.get(settings)).toEqual({
+        theme: 'dark',
+        tags: ['c'],
+        notifications: { email: false, push: true },
+      });
+    });
+
+    it('should merge into defaultValue without mutating it', () => {
+      zodStorage.patch(settings, { notifications: { push: false } });
+
+      expect(zodStorage.get(settings)?.notifications).toEqual({ email: true, push: false });
+      expect(settings.defaultValue.notifications).toEqual({ email: true, push: true });
+    });
+
+    it('should skip the write when the merged value is invalid', () => {
+      zodStorage.init(settings);
+
+      expect(zodStorage.patch(settings, { theme: 'blue' } as unknown as { theme: 'light' })).toBe(
+        false
+      );
+      expect(zodStorage.get(settings)?.theme).toBe('light');
+    });
+  });
+
+  describe('async', () => {
+    it('should update and patch through the async API', async () => {
+      const memory = createMemoryStorage();
+      const asyncCounter = { ...counter, storage: memory };
+      const asyncSettings = { ...settings, storage: memory };
+
+      expect(
+        await zodStorage.async.update(asyncCounter, (count) => Promise.resolve(count + 1))
+      ).toBe(true);
+      expect(await zodStorage.async.get(asyncCounter)).toBe(1);
+
+      await zodStorage.async.patch(asyncSettings, { theme: 'dark' });
+      expect((await zodStorage.async.get(asyncSettings))?.theme).toBe('dark');
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { z } from 'zod';
 import { zs } from '../zs';
 import { zodStorage } from '../zodStorage';
+import { StorageValidationError } from '../errors';
 
 describe('zodStorage', () => {
   beforeEach(() => {
@@ -773,7 +774,7 @@ describe('zodStorage', () => {
       const storage = zs({
         key: 'email',
         schema: z.string().email(),
-        defaultValue: '',
+        defaultValue: 'default@example.com',
       });
 
       zodStorage.set(storage, 'test@example.com');
@@ -787,7 +788,7 @@ describe('zodStorage', () => {
       const storage = zs({
         key: 'url',
         schema: z.string().url(),
-        defaultValue: '',
+        defaultValue: 'https://example.com/default',
       });
 
       zodStorage.set(storage, 'https://example.com');
@@ -801,7 +802,7 @@ describe('zodStorage', () => {
       const storage = zs({
         key: 'pattern',
         schema: z.string().regex(/^[A-Z]{3}-\d{3}$/),
-        defaultValue: '',
+        defaultValue: 'AAA-000',
       });
 
       zodStorage.set(storage, 'ABC-123');
@@ -839,6 +840,64 @@ describe('zodStorage', () => {
     });
   });
 
+  describe('set validation', () => {
+    const storage = zs({
+      key: 'profile',
+      schema: z.object({ name: z.string(), age: z.number().min(0) }),
+      defaultValue: { name: '', age: 0 },
+    });
+
+    it('should skip writing invalid data by default', () => {
+      zodStorage.set(storage, { name: 'John', age: 30 });
+
+      const written = zodStorage.set(storage, { name: 'John', age: -1 });
+
+      expect(written).toBe(false);
+      expect(zodStorage.get(storage)).toEqual({ name: 'John', age: 30 });
+    });
+
+    it('should write defaultValue when data is invalid (onInvalid: default)', () => {
+      const written = zodStorage.set(storage, { name: 'John', age: -1 }, { onInvalid: 'default' });
+
+      expect(written).toBe(true);
+      expect(zodStorage.get(storage)).toEqual({ name: '', age: 0 });
+    });
+
+    it('should throw when data is invalid (onInvalid: throw)', () => {
+      expect(() =>
+        zodStorage.set(storage, { name: 'John', age: -1 }, { onInvalid: 'throw' })
+      ).toThrow(StorageValidationError);
+      expect(localStorage.getItem('profile')).toBeNull();
+    });
+
+    it('should reject untyped data at runtime', () => {
+      const apiResponse = JSON.parse('{"name": 42}') as { name: string; age: number };
+
+      expect(zodStorage.set(storage, apiResponse)).toBe(false);
+      expect(localStorage.getItem('profile')).toBeNull();
+    });
+
+    it('should persist the parsed output (stripped unknown keys)', () => {
+      zodStorage.set(storage, { name: 'John', age: 30, extra: true } as {
+        name: string;
+        age: number;
+      });
+
+      expect(localStorage.getItem('profile')).toBe(JSON.stringify({ name: 'John', age: 30 }));
+    });
+
+    it('should persist the parsed output (coerced values)', () => {
+      const coerced = zs({
+        key: 'coerced',
+        schema: z.coerce.number(),
+        defaultValue: 0,
+      });
+
+      zodStorage.set(coerced, '42' as unknown as number);
+      expect(localStorage.getItem('coerced')).toBe('42');
+    });
+  });
+
   describe('data corruption scenarios', () => {
     it('should reject when user manually corrupts object with wrong type fields', () => {
       const storage = zs({
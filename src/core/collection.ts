@@ -0,0 +1,273 @@
+import z, { ZodType, ZodTypeDef } from 'zod';
+import {
+  SafeStorage,
+  StorageAdapter,
+  StorageFallback,
+  StorageSerializer,
+  StorageType,
+} from '@/types/type';
+import { formatIssues, StorageValidationError } from './errors';
+import { ZodStorage, zodStorage } from './zodStorage';
+
+/**
+ * Fields of an item usable as its id (string or number values)
+ */
+export type CollectionIdField<Item> = {
+  [K in keyof Item]: Item[K] extends string | number ? K : never;
+}[keyof Item] &
+  string;
+
+/**
+ * ZsCollectionConfig type definition
+ *
+ * @template Item - The type of an item
+ * @template IdField - Field holding the id of an item
+ * @property {string} key - The storage key of the collection
+ * @property {ZodType<Item>} itemSchema - The Zod schema each item is validated against
+ * @property {IdField} idField - The field identifying an item
+ * @property {boolean} [split] - Stores each item under its own key `${key}:${id}`, defaults to false
+ * @property {StorageType | StorageAdapter} [storage] - The storage type ("local" or "session") or a custom adapter, defaults to "local"
+ * @property {StorageFallback} [fallback] - Behavior when the Web Storage is not available ("noop", "memory" or "throw"), defaults to "noop"
+ * @property {StorageSerializer} [serializer] - Converts values to and from stored strings, defaults to the instance serializer
+ * @property {boolean} [compress] - Compresses stored values (uncompressed values are still read)
+ */
+export type ZsCollectionConfig<Item, IdField extends CollectionIdField<Item>> = {
+  key: string;
+  itemSchema: ZodType<Item, ZodTypeDef, unknown>;
+  idField: IdField;
+  split?: boolean;
+  storage?: StorageType | StorageAdapter;
+  fallback?: StorageFallback;
+  serializer?: StorageSerializer;
+  compress?: boolean;
+};
+
+/**
+ * Options type for zs.collection
+ */
+export interface ZsCollectionOptions {
+  /**
+   * zodStorage instance used to read and write the collection.
+   * Default: `zodStorage`
+   */
+  instance?: ZodStorage;
+}
+
+/**
+ * Options type for collection insert and upsert
+ */
+export interface CollectionWriteOptions {
+  /**
+   * Specifies behavior when the item fails schema validation.
+   *
+   * - "skip": Leaves storage untouched (default)
+   * - "throw": Throws a StorageValidationError
+   */
+  onInvalid?: 'skip' | 'throw';
+}
+
+/**
+ * Collection of items stored by id, created with zs.collection.
+ * Items are validated one by one: an invalid item is left out of reads without affecting the others.
+ *
+ * @template Item The type of an item
+ * @template Id The type of an item id
+ */
+export interface StorageCollection<Item, Id> {
+  /**
+   * Adds an item, unless an item with the same id exists.
+   * Returns `true` if the item was written.
+   */
+  insert(item: Item, options?: CollectionWriteOptions): boolean;
+  /**
+   * Adds an item, or replaces the item with the same id.
+   * Returns `true` if the item was written.
+   */
+  upsert(item: Item, options?: CollectionWriteOptions): boolean;
+  /**
+   * Removes the item with the given id.
+   * Returns `true` if an item was removed.
+   */
+  remove(id: Id): boolean;
+  /**
+   * Returns the item with the given id, or `null` if it is missing or invalid
+   */
+  getById(id: Id): Item | null;
+  /**
+   * Returns every valid item, in insertion order
+   */
+  list(): Item[];
+  /**
+   * Returns the valid items matching a predicate
+   */
+  where(predicate: (item: Item) => boolean): Item[];
+  /**
+   * Removes every item from storage
+   */
+  clear(): void;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Creates a collection of items stored by id, with per-item validation.
+ * - By default the items are stored as one array under `key`
+ * - With `split`, each item is stored under `${key}:${id}` and `key` holds the ids,
+ *   so a corrupt item cannot make the others unreadable
+ *
+ * @example
+ * ```ts
+ * const BookmarkData = zs.collection({
+ *   key: 'bookmarks',
+ *   itemSchema: z.object({ id: z.string(), url: z.string().url() }),
+ *   idField: 'id',
+ *   split: true,
+ * });
+ *
+ * BookmarkData.insert({ id: 'a', url: 'https://example.com' });
+ * BookmarkData.where((bookmark) => bookmark.url.startsWith('https:'));
+ * ```
+ *
+ * @template Item The type of an item
+ * @template IdField The field holding the id of an item
+ * @param {ZsCollectionConfig<Item, IdField>} config - Collection configuration
+ * @param {ZsCollectionOptions} [options] - Optional options
+ * @returns {StorageCollection<Item, Item[IdField]>} The collection
+ */
+export const collection = <Item, IdField extends CollectionIdField<Item>>(
+  config: ZsCollectionConfig<Item, IdField>,
+  options: ZsCollectionOptions = {}
+): StorageCollection<Item, Item[IdField]> => {
+  type Id = Item[IdField];
+
+  const { key, itemSchema, idField, split = false, ...entryConfig } = config;
+  const { instance = zodStorage } = options;
+
+  // Without split, stored items are only checked one by one when read
+  const itemsEntry: SafeStorage<unknown[]> = {
+    ...entryConfig,
+    key,
+    value: z.array(z.unknown()),
+    defaultValue: [],
+  };
+
+  // With split, the ids in insertion order
+  const idsEntry: SafeStorage<string[]> = {
+    ...entryConfig,
+    key,
+    value: z.array(z.string()),
+    defaultValue: [],
+  };
+
+  const itemEntry = (id: Id): SafeStorage<unknown> => ({
+    ...entryConfig,
+    key: `${key}:${String(id)}`,
+    value: z.unknown(),
+    defaultValue: null,
+  });
+
+  const readList = <T>(entry: SafeStorage<T[]>): T[] => {
+    const result = instance.safeGet(entry);
+    return result.success ? result.data : [];
+  };
+
+  const toItem = (value: unknown): Item | null => {
+    const result = itemSchema.safeParse(value);
+    return result.success ? result.data : null;
+  };
+
+  const findRaw = (id: Id): unknown => {
+    if (split) {
+      const result = instance.safeGet(itemEntry(id));
+      return result.success ? result.data : undefined;
+    }
+
+    return readList(itemsEntry).find((value) => isRecord(value) && value[idField] === id);
+  };
+
+  const has = (id: Id) =>
+    split ? readList(idsEntry).includes(String(id)) : findRaw(id) !== undefined;
+
+  /**
+   * Validates an item and writes it, replacing the item with the same id.
+   */
+  const write = (item: Item, writeOptions: CollectionWriteOptions | undefined): boolean => {
+    const { onInvalid = 'skip' } = writeOptions ?? {};
+    const result = itemSchema.safeParse(item);
+
+    if (!result.success) {
+      if (onInvalid === 'throw') {
+        throw new StorageValidationError(
+          `Invalid item for collection "${key}": ${formatIssues(result.error)}`,
+          { key, storage: config.storage, cause: result.error }
+        );
+      }
+
+      return false;
+    }
+
+    const data = result.data;
+    const id = data[idField];
+
+    if (!split) {
+      const values = readList(itemsEntry);
+      const index = values.findIndex((value) => isRecord(value) && value[idField] === id);
+      const next =
+        index === -1 ? [...values, data] : values.map((v, i) => (i === index ? data : v));
+
+      return instance.set(itemsEntry, next);
+    }
+
+    if (!instance.set(itemEntry(id), data)) {
+      return false;
+    }
+
+    const ids = readList(idsEntry);
+
+    return ids.includes(String(id)) || instance.set(idsEntry, [...ids, String(id)]);
+  };
+
+  const list = (): Item[] => {
+    const values = split ? readList(idsEntry).map((id) => findRaw(id as Id)) : readList(itemsEntry);
+
+    return values.map(toItem).filter((item): item is Item => item !== null);
+  };
+
+  return {
+    insert: (item, writeOptions) => {
+      const id = isRecord(item) ? (item[idField] as Id) : undefined;
+      return id !== undefined && has(id) ? false : write(item, writeOptions);
+    },
+    upsert: (item, writeOptions) => write(item, writeOptions),
+    remove: (id) => {
+      if (!has(id)) {
+        return false;
+      }
+
+      if (!split) {
+        const values = readList(itemsEntry);
+        return instance.set(
+          itemsEntry,
+          values.filter((value) => !(isRecord(value) && value[idField] === id))
+        );
+      }
+
+      instance.clear(itemEntry(id));
+      return instance.set(
+        idsEntry,
+        readList(idsEntry).filter((storedId) => storedId !== String(id))
+      );
+    },
+    getById: (id) => toItem(findRaw(id)),
+    list,
+    where: (predicate) => list().filter(predicate),
+    clear: () => {
+      if (split) {
+        readList(idsEntry).forEach((id) => instance.clear(itemEntry(id as Id)));
+      }
+
+      instance.clear(itemsEntry);
+    },
+  };
+};
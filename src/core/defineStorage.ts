@@ -0,0 +1,182 @@
+import {
+  DeepPartial,
+  SafeStorage,
+  SafeStorageGetOptions,
+  SafeStorageResult,
+  SafeStorageSetOptions,
+  SafeStorageSubscribeOptions,
+} from '@/types/type';
+import { ZodStorageError } from './errors';
+import { ZodStorage, zodStorage } from './zodStorage';
+
+/**
+ * Storage entries of a registry, by name
+ */
+export type StorageEntries = Record<string, SafeStorage<unknown>>;
+
+/**
+ * Storage entry bound to a zodStorage instance, with the instance methods applied to it
+ *
+ * @template T The type of the stored value
+ */
+export interface BoundStorageEntry<T> {
+  /**
+   * The underlying storage configuration, e.g. for the async API
+   */
+  readonly entry: SafeStorage<T>;
+  get(options?: SafeStorageGetOptions): T | null;
+  safeGet(): SafeStorageResult<T>;
+  set(data: T, options?: SafeStorageSetOptions): boolean;
+  clear(): void;
+  init(): boolean;
+  ensure(): T;
+  update(updater: (current: T) => T, options?: SafeStorageSetOptions): boolean;
+  patch(partial: DeepPartial<T>, options?: SafeStorageSetOptions): boolean;
+  subscribe(listener: (value: T | null) => void, options?: SafeStorageSubscribeOptions): () => void;
+}
+
+/**
+ * Maps registry entries to the type of their values
+ */
+export type StorageEntryValues<Entries extends StorageEntries> = {
+  [Name in keyof Entries]: Entries[Name] extends SafeStorage<infer T> ? T : never;
+};
+
+/**
+ * Registry returned by defineStorage
+ *
+ * @template Entries The storage entries, by name
+ */
+export type StorageRegistry<Entries extends StorageEntries> = {
+  [Name in keyof Entries]: BoundStorageEntry<StorageEntryValues<Entries>[Name]>;
+} & {
+  /**
+   * Names of the registered entries
+   */
+  readonly names: (keyof Entries)[];
+  /**
+   * Reads every entry, same as get
+   */
+  getAll(options?: SafeStorageGetOptions): {
+    [Name in keyof Entries]: StorageEntryValues<Entries>[Name] | null;
+  };
+  /**
+   * Removes every entry from storage
+   */
+  clearAll(): void;
+  /**
+   * Writes the default value of every entry, same as init
+   */
+  initAll(): void;
+};
+
+/**
+ * Union of the entry names of a registry
+ *
+ * @example
+ * ```ts
+ * type AppStorageName = StorageNames<typeof appStorage>; // 'theme' | 'user'
+ * ```
+ */
+export type StorageNames<Registry> =
+  Registry extends StorageRegistry<infer Entries> ? keyof Entries & string : never;
+
+/**
+ * Options type for defineStorage
+ */
+export interface DefineStorageOptions {
+  /**
+   * zodStorage instance used to read and write the entries.
+   * Default: `zodStorage`
+   */
+  instance?: ZodStorage;
+}
+
+const RESERVED_NAMES = ['names', 'getAll', 'clearAll', 'initAll'];
+
+/**
+ * Binds an entry to an instance.
+ */
+const bindEntry = <T>(instance: ZodStorage, entry: SafeStorage<T>): BoundStorageEntry<T> => ({
+  entry,
+  get: (options) => instance.get(entry, options ?? {}),
+  safeGet: () => instance.safeGet(entry),
+  set: (data, options) => instance.set(entry, data, options ?? {}),
+  clear: () => instance.clear(entry),
+  init: () => instance.init(entry),
+  ensure: () => instance.ensure(entry),
+  update: (updater, options) => instance.update(entry, updater, options),
+  patch: (partial, options) => instance.patch(entry, partial, options),
+  subscribe: (listener, options) => instance.subscribe(entry, listener, options),
+});
+
+/**
+ * Groups storage entries into a typed registry.
+ * - Each entry is exposed by name with the instance methods bound to it
+ * - Throws if two entries share the same key and storage (entries without one use the instance default)
+ *
+ * @example
+ * ```ts
+ * const appStorage = defineStorage({
+ *   theme: zs({ key: 'theme', schema: z.enum(['light', 'dark']), defaultValue: 'light' }),
+ *   user: zs({ key: 'user', schema: UserSchema, defaultValue: null }),
+ * });
+ *
+ * appStorage.theme.set('dark');
+ * appStorage.clearAll();
+ * ```
+ *
+ * @template Entries The storage entries, by name
+ * @param {Entries} entries - Storage entries, by name
+ * @param {DefineStorageOptions} [options] - Optional options
+ * @returns {StorageRegistry<Entries>} The registry
+ * @throws {ZodStorageError} If a name is reserved, or two entries share the same key and storage
+ */
+export const defineStorage = <Entries extends StorageEntries>(
+  entries: Entries,
+  options: DefineStorageOptions = {}
+): StorageRegistry<Entries> => {
+  const { instance = zodStorage } = options;
+  const names = Object.keys(entries) as (keyof Entries & string)[];
+
+  names.forEach((name, index) => {
+    const { key, storage = instance.defaultStorage } = entries[name];
+
+    if (RESERVED_NAMES.includes(name)) {
+      throw new ZodStorageError(`"${name}" is reserved and cannot be used as an entry name`, {
+        key,
+        storage,
+      });
+    }
+
+    const duplicate = names
+      .slice(0, index)
+      .find(
+        (other) =>
+          entries[other].key === key &&
+          (entries[other].storage ?? instance.defaultStorage) === storage
+      );
+
+    if (duplicate !== undefined) {
+      throw new ZodStorageError(
+        `Entries "${duplicate}" and "${name}" both use the key "${key}" in the same storage`,
+        { key, storage }
+      );
+    }
+  });
+
+  const bound = Object.fromEntries(
+    names.map((name) => [name, bindEntry(instance, entries[name])])
+  ) as { [Name in keyof Entries]: BoundStorageEntry<StorageEntryValues<Entries>[Name]> };
+
+  return {
+    ...bound,
+    names,
+    getAll: (getOptions?: SafeStorageGetOptions) =>
+      Object.fromEntries(
+        names.map((name) => [name, instance.get(entries[name], getOptions ?? {})])
+      ) as { [Name in keyof Entries]: StorageEntryValues<Entries>[Name] | null },
+    clearAll: () => names.forEach((name) => instance.clear(entries[name])),
+    initAll: () => names.forEach((name) => instance.init(entries[name])),
+  };
+};
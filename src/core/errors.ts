@@ -0,0 +1,142 @@
+import { ZodError } from 'zod';
+import { AsyncStorageAdapter, StorageAdapter, StorageType } from '@/types/type';
+
+/**
+ * Context attached to a ZodStorageError
+ */
+export interface ZodStorageErrorOptions {
+  /**
+   * Key of the entry being accessed
+   */
+  key?: string;
+
+  /**
+   * Storage of the entry being accessed
+   */
+  storage?: StorageType | StorageAdapter | AsyncStorageAdapter;
+
+  /**
+   * Raw string read from storage
+   */
+  raw?: string | null;
+
+  /**
+   * The original error
+   */
+  cause?: unknown;
+}
+
+/**
+ * Base class of every error thrown by zodStorage.
+ * Carries the key and storage of the entry, the raw stored string and the original error.
+ */
+export class ZodStorageError extends Error {
+  /**
+   * Key of the entry, if the error concerns one
+   */
+  readonly key: string | undefined;
+
+  /**
+   * Storage of the entry
+   */
+  readonly storage: StorageType | StorageAdapter | AsyncStorageAdapter | undefined;
+
+  /**
+   * Raw string read from storage, `null` if nothing was read
+   */
+  readonly raw: string | null;
+
+  /**
+   * The original error
+   */
+  readonly cause: unknown;
+
+  constructor(message: string, options: ZodStorageErrorOptions = {}) {
+    super(message);
+    this.name = 'ZodStorageError';
+    this.key = options.key;
+    this.storage = options.storage;
+    this.raw = options.raw ?? null;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Thrown when a stored string cannot be decoded
+ * (corrupt JSON, failed migration, decryption error, ...).
+ */
+export class StorageParseError extends ZodStorageError {
+  constructor(message: string, options: ZodStorageErrorOptions = {}) {
+    super(message, options);
+    this.name = 'StorageParseError';
+  }
+}
+
+/**
+ * Thrown when a stored value does not match the entry's schema.
+ * The original ZodError is kept as `cause`.
+ */
+export class StorageValidationError extends ZodStorageError {
+  declare readonly cause: ZodError;
+
+  constructor(message: string, options: ZodStorageErrorOptions & { cause: ZodError }) {
+    super(message, options);
+    this.name = 'StorageValidationError';
+  }
+
+  /**
+   * Issues of the original ZodError
+   */
+  get issues() {
+    return this.cause.issues;
+  }
+}
+
+/**
+ * Thrown when a write exceeds the storage quota.
+ */
+export class StorageQuotaError extends ZodStorageError {
+  constructor(message: string, options: ZodStorageErrorOptions = {}) {
+    super(message, options);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+/**
+ * Thrown when a storage is not usable in the current environment
+ * (server rendering, Web Workers, storage blocked by the browser, ...)
+ * and the entry's fallback is "throw", or when reading it fails.
+ */
+export class StorageUnavailableError extends ZodStorageError {
+  declare readonly storage: StorageType | StorageAdapter | AsyncStorageAdapter;
+
+  constructor(
+    storage: StorageType | StorageAdapter | AsyncStorageAdapter,
+    options: Omit<ZodStorageErrorOptions, 'storage'> = {}
+  ) {
+    super(
+      typeof storage === 'string'
+        ? `${storage}Storage is not available in this environment`
+        : 'The storage is not available',
+      { ...options, storage }
+    );
+    this.name = 'StorageUnavailableError';
+  }
+}
+
+/**
+ * Formats Zod issues as a single line for error messages.
+ */
+export const formatIssues = (error: ZodError): string =>
+  error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+
+/**
+ * Checks whether an error thrown by setItem means the storage is full.
+ */
+export const isQuotaExceededError = (err: unknown): boolean =>
+  err instanceof DOMException &&
+  (err.name === 'QuotaExceededError' ||
+    // Firefox
+    err.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    // Legacy code for QUOTA_EXCEEDED_ERR
+    err.code === 22);
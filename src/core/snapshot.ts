@@ -0,0 +1,235 @@
+import { z } from 'zod';
+import { SafeStorage, SafeStorageResult } from '@/types/type';
+import { taggedJsonSerializer } from '../serializers/taggedJsonSerializer';
+import { migrate } from '../utils/migrate';
+import { formatIssues, StorageParseError, StorageValidationError, ZodStorageError } from './errors';
+import { ZodStorage, zodStorage } from './zodStorage';
+
+const SNAPSHOT_FORMAT = 'zod-browser-storage/snapshot';
+const SNAPSHOT_VERSION = 1;
+
+const snapshotSchema = z.object({
+  format: z.literal(SNAPSHOT_FORMAT),
+  version: z.literal(SNAPSHOT_VERSION),
+  createdAt: z.string(),
+  entries: z.record(z.object({ version: z.number().int().optional(), value: z.unknown() })),
+});
+
+/**
+ * Versioned JSON document holding the values of a set of entries.
+ * Values are kept in tagged JSON, so Dates, Maps, Sets and BigInts survive the round trip.
+ */
+export type StorageSnapshot = z.infer<typeof snapshotSchema>;
+
+/**
+ * Entries a snapshot is exported from or imported into, as a list or by name (e.g. defineStorage entries)
+ */
+export type SnapshotEntries =
+  | readonly SafeStorage<unknown>[]
+  | Readonly<Record<string, SafeStorage<unknown>>>;
+
+/**
+ * Outcome of importing one key
+ *
+ * - "imported": The value was validated and written
+ * - "skipped": The key is not in the snapshot ("missing") or matches no entry ("unknown")
+ * - "rejected": The value failed migration or validation, or could not be written (or cleared with `mode: "replace"`)
+ */
+export type SnapshotImportResult =
+  | { status: 'imported' }
+  | { status: 'skipped'; reason: 'missing' | 'unknown' }
+  | { status: 'rejected'; error: Error };
+
+/**
+ * Outcome of importSnapshot, by key
+ */
+export type SnapshotImportReport = Record<string, SnapshotImportResult>;
+
+/**
+ * Options type for exportSnapshot
+ */
+export interface ExportSnapshotOptions {
+  /**
+   * zodStorage instance used to read the entries.
+   * Default: `zodStorage`
+   */
+  instance?: ZodStorage;
+}
+
+/**
+ * Options type for importSnapshot
+ */
+export interface ImportSnapshotOptions {
+  /**
+   * zodStorage instance used to write the entries.
+   * Default: `zodStorage`
+   */
+  instance?: ZodStorage;
+
+  /**
+   * How entries missing from the snapshot are handled.
+   *
+   * - "merge": Leaves them untouched (default)
+   * - "replace": Clears them
+   */
+  mode?: 'merge' | 'replace';
+}
+
+/**
+ * Lists the entries, rejecting entries that share a key: snapshots are keyed by entry key only,
+ * so their values would overwrite each other.
+ */
+const toList = (entries: SnapshotEntries): SafeStorage<unknown>[] => {
+  const list: SafeStorage<unknown>[] = Object.values(entries);
+
+  list.forEach(({ key, storage }, index) => {
+    if (list.slice(0, index).some((other) => other.key === key)) {
+      throw new ZodStorageError(
+        `Several entries use the key "${key}", snapshots need unique keys`,
+        {
+          key,
+          storage,
+        }
+      );
+    }
+  });
+
+  return list;
+};
+
+const toError = (err: unknown): Error => (err instanceof Error ? err : new Error(String(err)));
+
+/**
+ * Exports the valid stored values of entries to a snapshot document.
+ * Missing and invalid values are left out, and so are entries that cannot be read synchronously
+ * (encrypted entries and entries on async storages).
+ *
+ * @param {SnapshotEntries} entries - Entries to export
+ * @param {ExportSnapshotOptions} [options] - Optional options
+ * @returns {StorageSnapshot} The snapshot, ready for JSON.stringify
+ * @throws {ZodStorageError} If several entries use the same key
+ */
+export const exportSnapshot = (
+  entries: SnapshotEntries,
+  options: ExportSnapshotOptions = {}
+): StorageSnapshot => {
+  const { instance = zodStorage } = options;
+  const snapshot: StorageSnapshot = {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    entries: {},
+  };
+
+  toList(entries).forEach((entry) => {
+    let result: SafeStorageResult<unknown>;
+
+    try {
+      result = instance.safeGet(entry);
+    } catch {
+      // Encrypted entries and entries on async storages cannot be read synchronously
+      return;
+    }
+
+    if (result.success) {
+      snapshot.entries[entry.key] = {
+        version: entry.version,
+        value: JSON.parse(taggedJsonSerializer.stringify(result.data)),
+      };
+    }
+  });
+
+  return snapshot;
+};
+
+/**
+ * Imports a snapshot document into entries.
+ * - Every value is migrated and validated before anything is written
+ * - Invalid values are rejected, the valid ones are still imported
+ * - With `mode: "replace"`, entries missing from the snapshot are cleared
+ *
+ * @param {SnapshotEntries} entries - Entries to import into
+ * @param {unknown} document - Snapshot document, parsed or as a JSON string
+ * @param {ImportSnapshotOptions} [options] - Optional options
+ * @returns {SnapshotImportReport} The outcome of every entry key and unknown snapshot key
+ * @throws {StorageParseError} If the document is not a snapshot
+ * @throws {ZodStorageError} If several entries use the same key
+ */
+export const importSnapshot = (
+  entries: SnapshotEntries,
+  document: unknown,
+  options: ImportSnapshotOptions = {}
+): SnapshotImportReport => {
+  const { instance = zodStorage, mode = 'merge' } = options;
+
+  let snapshot: StorageSnapshot;
+
+  try {
+    const parsed: unknown = typeof document === 'string' ? JSON.parse(document) : document;
+    snapshot = snapshotSchema.parse(parsed);
+  } catch (err) {
+    throw new StorageParseError('The document is not a valid storage snapshot', { cause: err });
+  }
+
+  const report: SnapshotImportReport = {};
+  const writes: (() => void)[] = [];
+
+  toList(entries).forEach((entry) => {
+    const { key, value: schema, version = 0, migrations } = entry;
+
+    if (!Object.prototype.hasOwnProperty.call(snapshot.entries, key)) {
+      report[key] = { status: 'skipped', reason: 'missing' };
+
+      if (mode === 'replace') {
+        writes.push(() => {
+          try {
+            instance.clear(entry);
+          } catch (err) {
+            report[key] = { status: 'rejected', error: toError(err) };
+          }
+        });
+      }
+
+      return;
+    }
+
+    const item = snapshot.entries[key];
+
+    try {
+      const value = taggedJsonSerializer.parse(JSON.stringify(item.value));
+      const result = schema.safeParse(migrate(value, item.version ?? 0, version, migrations));
+
+      if (!result.success) {
+        throw new StorageValidationError(
+          `The value of "${key}" does not match the schema: ${formatIssues(result.error)}`,
+          { key, storage: entry.storage, cause: result.error }
+        );
+      }
+
+      writes.push(() => {
+        try {
+          if (!instance.set(entry, result.data, { onInvalid: 'throw' })) {
+            throw new ZodStorageError(`The value of "${key}" could not be written`, {
+              key,
+              storage: entry.storage,
+            });
+          }
+
+          report[key] = { status: 'imported' };
+        } catch (err) {
+          report[key] = { status: 'rejected', error: toError(err) };
+        }
+      });
+    } catch (err) {
+      report[key] = { status: 'rejected', error: toError(err) };
+    }
+  });
+
+  Object.keys(snapshot.entries).forEach((key) => {
+    report[key] ??= { status: 'skipped', reason: 'unknown' };
+  });
+
+  writes.forEach((write) => write());
+
+  return report;
+};
@@ -1,110 +1,1550 @@
-import { SafeStorage, SafeStorageGetOptions } from '@/types/type';
-import { getStorageObject } from '../utils/getStorageObject';
+import {
+  AsyncStorageAdapter,
+  DeepPartial,
+  SafeStorage,
+  SafeStorageGetOptions,
+  SafeStorageRepairChange,
+  SafeStorageRepairReport,
+  SafeStorageResult,
+  SafeStorageSetOptions,
+  SafeStorageSubscribeOptions,
+  SafeStorageValues,
+  StorageAdapter,
+  StorageAuditEntry,
+  StorageAuditOptions,
+  StorageAuditOrphan,
+  StorageAuditReport,
+  StorageEvictionStrategy,
+  StorageFallback,
+  StorageQuotaPolicy,
+  StorageSerializer,
+  StorageType,
+} from '@/types/type';
+import { createPrefixedStorage } from '../adapters/prefixedStorage';
+import { jsonSerializer } from '../serializers/jsonSerializer';
+import { compressStored, decompressStored, escapeStored } from '../utils/compression';
+import { deepMerge } from '../utils/deepMerge';
+import { decrypt, encrypt, isEncrypted } from '../utils/encryption';
+import { unwrapEnvelope, wrapEnvelope } from '../utils/envelope';
+import { EvictionCandidate, sortEvictionCandidates, toEvictionCandidate } from '../utils/eviction';
+import { getStorageObject, isAsyncStorage } from '../utils/getStorageObject';
+import { getWebStorage } from '../utils/isStorageAvailable';
+import { migrate, NewerVersionError } from '../utils/migrate';
+import { repairValue } from '../utils/repair';
+import {
+  formatIssues,
+  isQuotaExceededError,
+  StorageParseError,
+  StorageQuotaError,
+  StorageUnavailableError,
+  StorageValidationError,
+  ZodStorageError,
+} from './errors';
 
 /**
- * Retrieves a value from storage.
- * - Returns null or defaultValue based on options if JSON parse or Zod schema validation fails
- *
- * @template T The type of the stored value
- * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
- * @returns {T | null} The stored value, or `null` if not found
+ * Options of read and readAsync for repairing values that fail validation
  */
-function get<T>(storageConfig: SafeStorage<T>): T | null;
+type RepairOptions = Pick<SafeStorageGetOptions, 'onRepair'> & {
+  // Whether writing back the repaired value notifies subscribers
+  emit: boolean;
+};
+
+/**
+ * Options for creating a zodStorage instance
+ */
+export interface ZodStorageOptions {
+  /**
+   * Namespace prepended to every key as `${namespace}:`
+   */
+  namespace?: string;
+
+  /**
+   * Storage used by entries that do not specify one.
+   * Default: "local"
+   */
+  storage?: StorageType | StorageAdapter | AsyncStorageAdapter;
+
+  /**
+   * Fallback used by entries that do not specify one.
+   * Default: "noop"
+   */
+  fallback?: StorageFallback;
+
+  /**
+   * Default `onFailure` behavior of get.
+   * Default: "null"
+   */
+  onFailure?: SafeStorageGetOptions['onFailure'];
+
+  /**
+   * Serializer used by entries that do not specify one.
+   * Default: `jsonSerializer`
+   */
+  serializer?: StorageSerializer;
+
+  /**
+   * Default `onQuotaExceeded` behavior of set.
+   * Default: "throw"
+   */
+  onQuotaExceeded?: StorageQuotaPolicy;
+
+  /**
+   * Default eviction order of set.
+   * Default: "priority"
+   */
+  eviction?: StorageEvictionStrategy;
+}
+
 /**
- * Retrieves a value from storage.
- * - Returns null or defaultValue based on options if JSON parse or Zod schema validation fails
+ * Creates a zodStorage instance bound to a namespace and default options.
+ * Instances share the same get/set/clear/init API as `zodStorage`.
+ *
+ * @example
+ * ```ts
+ * const checkoutStorage = createZodStorage({ namespace: 'checkout', onFailure: 'default' });
  *
- * @template T The type of the stored value
- * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
- * @param {SafeStorageGetOptions} options - Optional options
- * @returns {T | null} The stored value, `null` if not found, or `defaultValue`/`null` based on options if invalid
+ * checkoutStorage.set(CartData, [1, 2, 3]); // localStorage["checkout:cart"]
+ * checkoutStorage.clearNamespace(); // removes only "checkout:*" keys
+ * ```
+ *
+ * @param {ZodStorageOptions} [options] - Instance options
+ * @returns The zodStorage instance
  */
-function get<T>(storageConfig: SafeStorage<T>, options: SafeStorageGetOptions): T | null;
-function get<T>(storageConfig: SafeStorage<T>, options?: SafeStorageGetOptions): T | null {
-  const { key, value: schema, defaultValue, storage = 'local' } = storageConfig;
-  const { onFailure = 'null' } = options ?? {};
+export const createZodStorage = (options: ZodStorageOptions = {}) => {
+  const {
+    namespace,
+    storage: defaultStorage = 'local',
+    fallback: defaultFallback = 'noop',
+    onFailure: defaultOnFailure = 'null',
+    serializer: defaultSerializer = jsonSerializer,
+    onQuotaExceeded: defaultOnQuotaExceeded = 'throw',
+    eviction: defaultEviction = 'priority',
+  } = options;
 
-  const storageObj = getStorageObject(storage);
+  /**
+   * Returns the adapter for an entry, applying instance defaults and the namespace prefix.
+   */
+  const resolveStorage = ({
+    storage = defaultStorage,
+    fallback = defaultFallback,
+  }: Pick<SafeStorage<unknown>, 'storage' | 'fallback'>): StorageAdapter | AsyncStorageAdapter => {
+    if (isAsyncStorage(storage)) {
+      return namespace === undefined ? storage : createPrefixedStorage(`${namespace}:`, storage);
+    }
 
-  try {
-    const raw = storageObj.getItem(key);
+    const storageObj = getStorageObject(storage, fallback);
 
-    if (!raw) {
-      return null;
+    return namespace === undefined
+      ? storageObj
+      : createPrefixedStorage(`${namespace}:`, storageObj);
+  };
+
+  /**
+   * Same as resolveStorage, for the sync API which cannot use async storages.
+   */
+  const resolveSyncStorage = ({
+    key,
+    storage,
+    fallback,
+  }: Pick<SafeStorage<unknown>, 'storage' | 'fallback'> & { key?: string }): StorageAdapter => {
+    const storageObj = resolveStorage({ storage, fallback });
+
+    if (isAsyncStorage(storageObj)) {
+      const subject = key === undefined ? 'The storage' : `Entry "${key}"`;
+      throw new Error(`${subject} is async and can only be used with the async API`);
+    }
+
+    return storageObj;
+  };
+
+  /**
+   * Throws for encrypted entries used with the sync API, which cannot encrypt or decrypt.
+   */
+  const assertNotEncrypted = (
+    { key, encryption }: Pick<SafeStorage<unknown>, 'key' | 'encryption'>,
+    method: string
+  ) => {
+    if (encryption) {
+      throw new Error(`Entry "${key}" is encrypted and can only be used with async.${method}`);
+    }
+  };
+
+  // Same-tab subscribers, notified after every write through this instance
+  const subscribers = new Set<{
+    key: string;
+    storage: StorageType | StorageAdapter | AsyncStorageAdapter;
+    notify: () => void;
+  }>();
+
+  /**
+   * Notifies the subscribers of an entry that its value changed.
+   */
+  const emit = ({
+    key,
+    storage = defaultStorage,
+  }: Pick<SafeStorage<unknown>, 'key' | 'storage'>) => {
+    subscribers.forEach((subscriber) => {
+      if (subscriber.key === key && subscriber.storage === storage) {
+        subscriber.notify();
+      }
+    });
+  };
+
+  // Last read of evictable entries in this page, per storage, used by LRU eviction
+  const accessTimes = new Map<
+    StorageType | StorageAdapter | AsyncStorageAdapter,
+    Map<string, number>
+  >();
+
+  /**
+   * Records a read of an evictable entry.
+   */
+  const touch = ({
+    key,
+    storage = defaultStorage,
+    evictable,
+  }: Pick<SafeStorage<unknown>, 'key' | 'storage' | 'evictable'>) => {
+    if (!evictable) {
+      return;
+    }
+
+    const times = accessTimes.get(storage) ?? new Map<string, number>();
+
+    times.set(key, Date.now());
+    accessTimes.set(storage, times);
+  };
+
+  /**
+   * Decodes a stored string: decompresses, parses, unwraps the envelope, migrates and validates.
+   * Throws if the value is malformed or a migration fails.
+   */
+  const decode = <T>(storageConfig: SafeStorage<T>, serialized: string) => {
+    const {
+      value: schema,
+      version = 0,
+      migrations,
+      serializer = defaultSerializer,
+    } = storageConfig;
+    const { value: parsed, meta } = unwrapEnvelope(serializer.parse(decompressStored(serialized)));
+
+    if (meta.expiresAt !== undefined && meta.expiresAt <= Date.now()) {
+      return { expired: true } as const;
+    }
+
+    const storedVersion = meta.version ?? 0;
+    const migrated = migrate(parsed, storedVersion, version, migrations);
+    const result = schema.safeParse(migrated);
+
+    return {
+      expired: false,
+      value: migrated,
+      result,
+      upgraded: storedVersion !== version,
+      // Upgraded and repaired values are written back with the time they had left
+      rewriteOptions: meta.expiresAt !== undefined ? { ttl: meta.expiresAt - Date.now() } : {},
+    } as const;
+  };
+
+  /**
+   * Validates data and encodes it to the string to store (before encryption).
+   * Returns `null` if the write should be skipped.
+   */
+  const encode = <T>(
+    storageConfig: SafeStorage<T>,
+    data: T,
+    options?: SafeStorageSetOptions
+  ): string | null => {
+    const {
+      value: schema,
+      version,
+      serializer = defaultSerializer,
+      compress = false,
+      evictable,
+      priority,
+    } = storageConfig;
+    const { onInvalid = 'skip', ttl = storageConfig.ttl } = options ?? {};
+
+    const result = schema.safeParse(data);
+
+    if (!result.success) {
+      if (onInvalid === 'throw') {
+        throw new StorageValidationError(
+          `Invalid data for "${storageConfig.key}": ${formatIssues(result.error)}`,
+          {
+            key: storageConfig.key,
+            storage: storageConfig.storage ?? defaultStorage,
+            cause: result.error,
+          }
+        );
+      }
+
+      // The default goes through the same validation, but never loops back here
+      return onInvalid === 'default'
+        ? encode(storageConfig, storageConfig.defaultValue, { ...options, onInvalid: 'skip' })
+        : null;
+    }
+
+    const expiresAt = ttl !== undefined ? Date.now() + ttl : undefined;
+    // Eviction metadata is only needed on entries that can be evicted
+    const evictionMeta = evictable ? { evictable, priority, accessedAt: Date.now() } : {};
+    const serialized = serializer.stringify(
+      wrapEnvelope(result.data, { version, expiresAt, ...evictionMeta })
+    );
+
+    return compress ? compressStored(serialized) : escapeStored(serialized);
+  };
+
+  /**
+   * Builds a failed safeGet result.
+   */
+  const failure = <T>(
+    reason: 'parse' | 'unavailable',
+    err: unknown,
+    raw: string | null
+  ): SafeStorageResult<T> => {
+    const error = err instanceof Error ? err : new Error(String(err));
+
+    return reason === 'parse'
+      ? { success: false, reason, error, raw: raw ?? '' }
+      : { success: false, reason, error, raw: null };
+  };
+
+  /**
+   * Reads, decodes and validates an entry from a resolved storage.
+   * With repairOptions, values failing validation are repaired and written back.
+   * Never throws: every failure is reported in the result.
+   */
+  const read = <T>(
+    storageConfig: SafeStorage<T>,
+    storageObj: StorageAdapter,
+    repairOptions?: RepairOptions
+  ): SafeStorageResult<T> => {
+    const { key } = storageConfig;
+
+    let raw: string | null;
+
+    try {
+      raw = storageObj.getItem(key);
+    } catch (err) {
+      return failure('unavailable', err, null);
+    }
+
+    if (raw === null) {
+      return { success: false, reason: 'missing', error: null, raw: null };
+    }
+
+    let decoded: ReturnType<typeof decode<T>>;
+
+    try {
+      if (isEncrypted(raw)) {
+        throw new Error('Encrypted values can only be read with async.get');
+      }
+
+      decoded = decode(storageConfig, raw);
+    } catch (err) {
+      return failure('parse', err, raw);
+    }
+
+    if (decoded.expired) {
+      storageObj.removeItem(key);
+      return { success: false, reason: 'missing', error: null, raw: null };
+    }
+
+    if (!decoded.result.success) {
+      const failed = {
+        success: false,
+        reason: 'validation',
+        error: decoded.result.error,
+        raw,
+        value: decoded.value,
+      } as const;
+      const repaired = repairOptions ? repair(storageConfig, failed) : null;
+
+      if (!repairOptions || !repaired) {
+        return failed;
+      }
+
+      // Best-effort, same as the upgraded value rewrite below
+      try {
+        if (store(storageConfig, repaired.data, decoded.rewriteOptions) && repairOptions.emit) {
+          emit(storageConfig);
+        }
+      } catch {
+        // The repaired value is still returned
+      }
+
+      repairOptions.onRepair?.(repaired.report);
+
+      return { success: true, data: repaired.data };
+    }
+
+    if (decoded.upgraded) {
+      // Persist the upgraded value so migrations only run once.
+      // Best-effort: a failed rewrite (e.g. full storage) is retried on the next read
+      try {
+        set(storageConfig, decoded.result.data, decoded.rewriteOptions);
+      } catch {
+        // The migrated value is still returned
+      }
+    }
+
+    touch(storageConfig);
+
+    return { success: true, data: decoded.result.data };
+  };
+
+  /**
+   * Same as read, for async storages and encrypted values.
+   */
+  const readAsync = async <T>(
+    storageConfig: SafeStorage<T>,
+    storageObj: StorageAdapter | AsyncStorageAdapter,
+    repairOptions?: RepairOptions
+  ): Promise<SafeStorageResult<T>> => {
+    const { key, encryption } = storageConfig;
+
+    let raw: string | null;
+
+    try {
+      raw = await storageObj.getItem(key);
+    } catch (err) {
+      return failure('unavailable', err, null);
+    }
+
+    if (raw === null) {
+      return { success: false, reason: 'missing', error: null, raw: null };
+    }
+
+    let decoded: ReturnType<typeof decode<T>>;
+
+    try {
+      decoded = decode(storageConfig, isEncrypted(raw) ? await decrypt(raw, encryption) : raw);
+    } catch (err) {
+      return failure('parse', err, raw);
+    }
+
+    if (decoded.expired) {
+      await storageObj.removeItem(key);
+      return { success: false, reason: 'missing', error: null, raw: null };
+    }
+
+    if (!decoded.result.success) {
+      const failed = {
+        success: false,
+        reason: 'validation',
+        error: decoded.result.error,
+        raw,
+        value: decoded.value,
+      } as const;
+      const repaired = repairOptions ? repair(storageConfig, failed) : null;
+
+      if (!repairOptions || !repaired) {
+        return failed;
+      }
+
+      // Best-effort, same as the upgraded value rewrite below
+      try {
+        if (
+          (await storeAsync(storageConfig, repaired.data, decoded.rewriteOptions)) &&
+          repairOptions.emit
+        ) {
+          emit(storageConfig);
+        }
+      } catch {
+        // The repaired value is still returned
+      }
+
+      repairOptions.onRepair?.(repaired.report);
+
+      return { success: true, data: repaired.data };
+    }
+
+    if (decoded.upgraded) {
+      // Best-effort, same as read
+      try {
+        await setAsync(storageConfig, decoded.result.data, decoded.rewriteOptions);
+      } catch {
+        // The migrated value is still returned
+      }
     }
 
-    const parsed = JSON.parse(raw) as unknown;
-    const result = schema.safeParse(parsed);
+    touch(storageConfig);
 
+    return { success: true, data: decoded.result.data };
+  };
+
+  /**
+   * Whether ensure should overwrite a failed read with the default value.
+   * Unreadable storages are left alone, and so are values written by a newer schema version
+   * (e.g. after an app rollback), which the newer version can still read.
+   */
+  const shouldInitialize = (result: SafeStorageResult<unknown>) =>
+    !result.success &&
+    result.reason !== 'unavailable' &&
+    !(result.reason === 'parse' && result.error instanceof NewerVersionError);
+
+  /**
+   * Returns the value to hand back for a read result, or throws based on onFailure.
+   * Missing values are always `null`.
+   */
+  const settle = <T>(
+    storageConfig: SafeStorage<T>,
+    result: SafeStorageResult<T>,
+    onFailure: SafeStorageGetOptions['onFailure']
+  ): T | null => {
     if (result.success) {
       return result.data;
     }
 
-    // Zod validation failed
-    if (onFailure === 'throw') {
-      throw result.error;
+    if (result.reason === 'missing') {
+      return null;
     }
 
-    return onFailure === 'default' ? defaultValue : null;
-  } catch (err) {
-    // JSON.parse or other runtime error
     if (onFailure === 'throw') {
-      if (err instanceof Error) {
-        throw new Error(`SafeStorage parsing error: ${err.message}`);
+      throw toError(storageConfig, result);
+    }
+
+    return onFailure === 'default' || onFailure === 'repair' ? storageConfig.defaultValue : null;
+  };
+
+  /**
+   * Salvages a value that failed validation, for `onFailure: "repair"`.
+   * Returns `null` if the repaired value still does not match the schema.
+   */
+  const repair = <T>(
+    storageConfig: SafeStorage<T>,
+    result: Extract<SafeStorageResult<T>, { reason: 'validation' }>
+  ): { data: T; report: SafeStorageRepairReport } | null => {
+    const { key, value: schema, defaultValue } = storageConfig;
+    const changes: SafeStorageRepairChange[] = [];
+
+    let value = result.value;
+    let issues = result.error.issues;
+
+    // Repairs can surface new issues (e.g. an array becoming too short), so retry a few times
+    for (let pass = 0; pass < 3; pass++) {
+      const repaired = repairValue(value, issues, defaultValue);
+
+      if (repaired.changes.length === 0) {
+        return null;
+      }
+
+      changes.push(...repaired.changes);
+
+      const validated = schema.safeParse(repaired.value);
+
+      if (validated.success) {
+        return { data: validated.data, report: { key, changes, issues: result.error.issues } };
+      }
+
+      value = repaired.value;
+      issues = validated.error.issues;
+    }
+
+    return null;
+  };
+
+  /**
+   * Converts a failed read result to the error thrown with `onFailure: "throw"`.
+   */
+  const toError = <T>(
+    { key, storage = defaultStorage }: SafeStorage<T>,
+    result: Exclude<SafeStorageResult<T>, { success: true } | { reason: 'missing' }>
+  ): ZodStorageError => {
+    const { error, raw } = result;
+
+    switch (result.reason) {
+      case 'parse':
+        return new StorageParseError(`Failed to parse the value of "${key}": ${error.message}`, {
+          key,
+          storage,
+          raw,
+          cause: error,
+        });
+      case 'validation':
+        return new StorageValidationError(
+          `The value of "${key}" does not match the schema: ${formatIssues(result.error)}`,
+          { key, storage, raw, cause: result.error }
+        );
+      case 'unavailable':
+        return new StorageUnavailableError(storage, { key, cause: error });
+    }
+  };
+
+  /**
+   * Builds the error thrown when a write does not fit in the storage.
+   */
+  const quotaError = (
+    { key, storage = defaultStorage }: Pick<SafeStorage<unknown>, 'key' | 'storage'>,
+    err: unknown
+  ) =>
+    new StorageQuotaError(`Storage quota exceeded while writing "${key}"`, {
+      key,
+      storage,
+      cause: err,
+    });
+
+  /**
+   * Returns the stored entries a write may evict, in eviction order:
+   * evictable entries with a priority lower than or equal to the written entry's.
+   */
+  const findEvictionCandidates = (
+    { key, storage = defaultStorage, priority = 0 }: SafeStorage<unknown>,
+    entries: [string, string | null][],
+    strategy: StorageEvictionStrategy
+  ): EvictionCandidate[] => {
+    const times = accessTimes.get(storage);
+
+    const candidates = entries.flatMap(([candidateKey, raw]) => {
+      const candidate =
+        candidateKey === key ? null : toEvictionCandidate(candidateKey, raw, defaultSerializer);
+
+      if (!candidate || candidate.priority > priority) {
+        return [];
       }
 
-      throw new Error('SafeStorage: Unknown error');
+      const readAt = times?.get(candidateKey) ?? 0;
+      return [{ ...candidate, accessedAt: Math.max(candidate.accessedAt, readAt) }];
+    });
+
+    return sortEvictionCandidates(candidates, strategy);
+  };
+
+  /**
+   * Notifies that an entry was evicted.
+   */
+  const evicted = ({ storage = defaultStorage }: SafeStorage<unknown>, key: string) => {
+    accessTimes.get(storage)?.delete(key);
+    emit({ key, storage });
+  };
+
+  /**
+   * Writes a stored string, applying the quota policy when the storage is full.
+   * Returns `false` if the write was skipped.
+   */
+  const write = <T>(
+    storageConfig: SafeStorage<T>,
+    storageObj: StorageAdapter,
+    stored: string,
+    options?: SafeStorageSetOptions
+  ): boolean => {
+    const { key } = storageConfig;
+    const { onQuotaExceeded = defaultOnQuotaExceeded, eviction = defaultEviction } = options ?? {};
+
+    let lastError: unknown;
+
+    const trySetItem = () => {
+      try {
+        storageObj.setItem(key, stored);
+        return true;
+      } catch (err) {
+        if (!isQuotaExceededError(err)) {
+          throw err;
+        }
+
+        lastError = err;
+        return false;
+      }
+    };
+
+    if (trySetItem()) {
+      return true;
+    }
+
+    if (onQuotaExceeded === 'skip') {
+      return false;
+    }
+
+    if (onQuotaExceeded === 'evict') {
+      const entries = storageObj
+        .keys()
+        .map((candidateKey): [string, string | null] => [
+          candidateKey,
+          storageObj.getItem(candidateKey),
+        ]);
+
+      for (const candidate of findEvictionCandidates(storageConfig, entries, eviction)) {
+        storageObj.removeItem(candidate.key);
+        evicted(storageConfig, candidate.key);
+
+        if (trySetItem()) {
+          return true;
+        }
+      }
+    }
+
+    throw quotaError(storageConfig, lastError);
+  };
+
+  /**
+   * Same as write, for async storages.
+   */
+  const writeAsync = async <T>(
+    storageConfig: SafeStorage<T>,
+    storageObj: StorageAdapter | AsyncStorageAdapter,
+    stored: string,
+    options?: SafeStorageSetOptions
+  ): Promise<boolean> => {
+    const { key } = storageConfig;
+    const { onQuotaExceeded = defaultOnQuotaExceeded, eviction = defaultEviction } = options ?? {};
+
+    let lastError: unknown;
+
+    const trySetItem = async () => {
+      try {
+        await storageObj.setItem(key, stored);
+        return true;
+      } catch (err) {
+        if (!isQuotaExceededError(err)) {
+          throw err;
+        }
+
+        lastError = err;
+        return false;
+      }
+    };
+
+    if (await trySetItem()) {
+      return true;
+    }
+
+    if (onQuotaExceeded === 'skip') {
+      return false;
+    }
+
+    if (onQuotaExceeded === 'evict') {
+      const entries = await Promise.all(
+        (await storageObj.keys()).map(
+          async (candidateKey): Promise<[string, string | null]> => [
+            candidateKey,
+            await storageObj.getItem(candidateKey),
+          ]
+        )
+      );
+
+      for (const candidate of findEvictionCandidates(storageConfig, entries, eviction)) {
+        await storageObj.removeItem(candidate.key);
+        evicted(storageConfig, candidate.key);
+
+        if (await trySetItem()) {
+          return true;
+        }
+      }
     }
 
-    return onFailure === 'default' ? defaultValue : null;
+    throw quotaError(storageConfig, lastError);
+  };
+
+  /**
+   * Encodes and writes a value without notifying subscribers.
+   * Returns `false` if the write was skipped.
+   */
+  const store = <T>(
+    storageConfig: SafeStorage<T>,
+    data: T,
+    options?: SafeStorageSetOptions
+  ): boolean => {
+    const storageObj = resolveSyncStorage(storageConfig);
+    const stored = encode(storageConfig, data, options);
+
+    return stored !== null && write(storageConfig, storageObj, stored, options);
+  };
+
+  /**
+   * Same as store, for async storages and encrypted entries.
+   */
+  const storeAsync = async <T>(
+    storageConfig: SafeStorage<T>,
+    data: T,
+    options?: SafeStorageSetOptions
+  ): Promise<boolean> => {
+    const { encryption } = storageConfig;
+
+    const storageObj = resolveStorage(storageConfig);
+    const stored = encode(storageConfig, data, options);
+
+    if (stored === null) {
+      return false;
+    }
+
+    const value = encryption ? await encrypt(stored, encryption) : stored;
+
+    return writeAsync(storageConfig, storageObj, value, options);
+  };
+
+  /**
+   * Reads an entry and settles the result, for get and subscribe.
+   * `emitRepair` tells whether writing back a repaired value notifies subscribers.
+   */
+  const load = <T>(
+    storageConfig: SafeStorage<T>,
+    options: SafeStorageGetOptions | undefined,
+    emitRepair: boolean
+  ): T | null => {
+    const { onFailure = defaultOnFailure, onRepair } = options ?? {};
+
+    const result = read(
+      storageConfig,
+      resolveSyncStorage(storageConfig),
+      onFailure === 'repair' ? { onRepair, emit: emitRepair } : undefined
+    );
+
+    return settle(storageConfig, result, onFailure);
+  };
+
+  /**
+   * Same as load, for async storages and encrypted entries.
+   */
+  const loadAsync = async <T>(
+    storageConfig: SafeStorage<T>,
+    options: SafeStorageGetOptions | undefined,
+    emitRepair: boolean
+  ): Promise<T | null> => {
+    const { onFailure = defaultOnFailure, onRepair } = options ?? {};
+
+    const result = await readAsync(
+      storageConfig,
+      resolveStorage(storageConfig),
+      onFailure === 'repair' ? { onRepair, emit: emitRepair } : undefined
+    );
+
+    return settle(storageConfig, result, onFailure);
+  };
+
+  /**
+   * Retrieves a value from storage.
+   * - Returns null or defaultValue based on options if JSON parse or Zod schema validation fails
+   * - Values stored at an older version are migrated, validated and written back
+   * - Expired values are removed and treated as missing
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @returns {T | null} The stored value, or `null` if not found
+   */
+  function get<T>(storageConfig: SafeStorage<T>): T | null;
+  /**
+   * Retrieves a value from storage.
+   * - Returns null or defaultValue based on options if JSON parse or Zod schema validation fails
+   * - With `onFailure: "repair"`, salvages the valid parts of the value and writes it back
+   * - Values stored at an older version are migrated, validated and written back
+   * - Expired values are removed and treated as missing
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @param {SafeStorageGetOptions} options - Optional options
+   * @returns {T | null} The stored value, `null` if not found, or `defaultValue`/`null` based on options if invalid
+   */
+  function get<T>(storageConfig: SafeStorage<T>, options: SafeStorageGetOptions): T | null;
+  function get<T>(storageConfig: SafeStorage<T>, options?: SafeStorageGetOptions): T | null {
+    assertNotEncrypted(storageConfig, 'get');
+
+    return load(storageConfig, options, true);
   }
-}
 
-/**
- * Stores a value in storage.
- *
- * @template T The type of the stored value
- * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
- * @param {T} data - The data to store
- * @returns {void}
- */
-function set<T>(storageConfig: SafeStorage<T>, data: T): void {
-  const { key, storage = 'local' } = storageConfig;
-  const storageObj = getStorageObject(storage);
+  /**
+   * Retrieves a value from storage without throwing, reporting why a read failed.
+   * - `{ success: true, data }` with the validated value
+   * - `{ success: false, reason, error, raw }` with reason "missing", "parse", "validation" or "unavailable"
+   *
+   * @example
+   * ```ts
+   * const result = zodStorage.safeGet(UserData);
+   *
+   * if (!result.success && result.reason === 'validation') {
+   *   console.warn('Stale user data', result.error.issues, result.raw);
+   * }
+   * ```
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @returns {SafeStorageResult<T>} The read result
+   */
+  function safeGet<T>(storageConfig: SafeStorage<T>): SafeStorageResult<T> {
+    assertNotEncrypted(storageConfig, 'safeGet');
 
-  storageObj.setItem(key, JSON.stringify(data));
-}
+    let storageObj: StorageAdapter;
 
-/**
- * Clears a value from storage for the given key.
- *
- * @template T The type of the stored value
- * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
- * @returns {void}
- */
-function clear<T>(storageConfig: SafeStorage<T>): void {
-  const { key, storage = 'local' } = storageConfig;
-  const storageObj = getStorageObject(storage);
+    try {
+      storageObj = resolveSyncStorage(storageConfig);
+    } catch (err) {
+      if (err instanceof StorageUnavailableError) {
+        return failure('unavailable', err, null);
+      }
 
-  storageObj.removeItem(key);
-}
+      throw err;
+    }
+
+    return read(storageConfig, storageObj);
+  }
+
+  /**
+   * Stores a value in storage.
+   * - Validates the data with the schema and stores the parsed output
+   * - Skips the write if validation fails
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @param {T} data - The data to store
+   * @returns {boolean} `true` if a value was written
+   */
+  function set<T>(storageConfig: SafeStorage<T>, data: T): boolean;
+  /**
+   * Stores a value in storage.
+   * - Validates the data with the schema and stores the parsed output
+   * - Skips the write, writes `defaultValue` or throws based on options if validation fails
+   * - Throws, skips the write or evicts other entries based on options if the storage is full
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @param {T} data - The data to store
+   * @param {SafeStorageSetOptions} options - Optional options
+   * @returns {boolean} `true` if a value was written
+   */
+  function set<T>(storageConfig: SafeStorage<T>, data: T, options: SafeStorageSetOptions): boolean;
+  function set<T>(
+    storageConfig: SafeStorage<T>,
+    data: T,
+    options?: SafeStorageSetOptions
+  ): boolean {
+    assertNotEncrypted(storageConfig, 'set');
+
+    if (!store(storageConfig, data, options)) {
+      return false;
+    }
+
+    emit(storageConfig);
+
+    return true;
+  }
+
+  /**
+   * Retrieves a value from storage, decrypting it if needed.
+   * Same behavior as get, for async storages and encrypted entries.
+   * Decryption failures are handled by onFailure.
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @param {SafeStorageGetOptions} [options] - Optional options
+   * @returns {Promise<T | null>} The stored value, `null` if not found, or `defaultValue`/`null` based on options if invalid
+   */
+  async function getAsync<T>(
+    storageConfig: SafeStorage<T>,
+    options?: SafeStorageGetOptions
+  ): Promise<T | null> {
+    return loadAsync(storageConfig, options, true);
+  }
+
+  /**
+   * Retrieves a value from storage without throwing, decrypting it if needed.
+   * Same behavior as safeGet, for async storages and encrypted entries.
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @returns {Promise<SafeStorageResult<T>>} The read result
+   */
+  async function safeGetAsync<T>(storageConfig: SafeStorage<T>): Promise<SafeStorageResult<T>> {
+    let storageObj: StorageAdapter | AsyncStorageAdapter;
+
+    try {
+      storageObj = resolveStorage(storageConfig);
+    } catch (err) {
+      if (err instanceof StorageUnavailableError) {
+        return failure('unavailable', err, null);
+      }
+
+      throw err;
+    }
+
+    return readAsync(storageConfig, storageObj);
+  }
+
+  /**
+   * Stores a value in storage, encrypting it if the entry has encryption.
+   * Same behavior as set, for async storages and encrypted entries.
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @param {T} data - The data to store
+   * @param {SafeStorageSetOptions} [options] - Optional options
+   * @returns {Promise<boolean>} `true` if a value was written
+   */
+  async function setAsync<T>(
+    storageConfig: SafeStorage<T>,
+    data: T,
+    options?: SafeStorageSetOptions
+  ): Promise<boolean> {
+    if (!(await storeAsync(storageConfig, data, options))) {
+      return false;
+    }
+
+    emit(storageConfig);
+
+    return true;
+  }
+
+  /**
+   * Clears a value from storage for the given key.
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @returns {void}
+   */
+  function clear<T>(storageConfig: SafeStorage<T>): void {
+    const { key } = storageConfig;
+    const storageObj = resolveSyncStorage(storageConfig);
+
+    storageObj.removeItem(key);
+    emit(storageConfig);
+  }
+
+  /**
+   * Initializes storage with the default value.
+   * (Overwrites unconditionally without checking existence)
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @returns {boolean} `true` if the default value was written
+   */
+  function init<T>(storageConfig: SafeStorage<T>): boolean {
+    const { defaultValue } = storageConfig;
+    return set(storageConfig, defaultValue);
+  }
+
+  /**
+   * Returns the stored value, initializing the entry only if it needs it.
+   * - Returns the stored value if it is valid
+   * - Writes and returns `defaultValue` if the value is missing, cannot be parsed or fails validation
+   * - Returns `defaultValue` without writing if the storage cannot be read,
+   *   or the value was written by a newer schema version (e.g. after an app rollback)
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @returns {T} The stored value or `defaultValue`
+   */
+  function ensure<T>(storageConfig: SafeStorage<T>): T {
+    assertNotEncrypted(storageConfig, 'ensure');
+
+    const result = read(storageConfig, resolveSyncStorage(storageConfig));
+
+    if (result.success) {
+      return result.data;
+    }
+
+    // Read once, so a defaultValue factory is called once and the stored value is returned
+    const { defaultValue } = storageConfig;
+
+    if (shouldInitialize(result)) {
+      set(storageConfig, defaultValue, {});
+    }
+
+    return defaultValue;
+  }
+
+  /**
+   * Ensures several entries at once, e.g. on app start.
+   * Same behavior as ensure for each entry.
+   *
+   * @example
+   * ```ts
+   * const [theme, settings] = zodStorage.ensureAll([ThemeData, SettingsData]);
+   * ```
+   *
+   * @template Entries The storage configurations
+   * @param {Entries} storageConfigs - Storage configurations to ensure
+   * @returns The stored values or default values, in the same order
+   */
+  function ensureAll<const Entries extends readonly SafeStorage<unknown>[]>(
+    storageConfigs: Entries
+  ): SafeStorageValues<Entries> {
+    return storageConfigs.map((storageConfig) =>
+      ensure(storageConfig)
+    ) as SafeStorageValues<Entries>;
+  }
+
+  /**
+   * Updates a stored value from its current value.
+   * - The updater receives the current value, or `defaultValue` if it is missing or invalid
+   * - The result is validated and written like set
+   *
+   * @example
+   * ```ts
+   * zodStorage.update(CounterData, (count) => count + 1);
+   * ```
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @param {(current: T) => T} updater - Returns the next value
+   * @param {SafeStorageSetOptions} [options] - Optional options, same as set
+   * @returns {boolean} `true` if a value was written
+   */
+  function update<T>(
+    storageConfig: SafeStorage<T>,
+    updater: (current: T) => T,
+    options?: SafeStorageSetOptions
+  ): boolean {
+    assertNotEncrypted(storageConfig, 'update');
+
+    const current = get(storageConfig, { onFailure: 'default' }) ?? storageConfig.defaultValue;
+
+    return set(storageConfig, updater(current), options ?? {});
+  }
+
+  /**
+   * Deep-merges a partial value into the stored value.
+   * - Plain objects are merged recursively, arrays and other values are replaced
+   * - Merges into `defaultValue` if the stored value is missing or invalid
+   * - The result is validated and written like set
+   *
+   * @example
+   * ```ts
+   * zodStorage.patch(SettingsData, { notifications: { email: false } });
+   * ```
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @param {DeepPartial<T>} partial - The values to merge
+   * @param {SafeStorageSetOptions} [options] - Optional options, same as set
+   * @returns {boolean} `true` if a value was written
+   */
+  function patch<T>(
+    storageConfig: SafeStorage<T>,
+    partial: DeepPartial<T>,
+    options?: SafeStorageSetOptions
+  ): boolean {
+    assertNotEncrypted(storageConfig, 'patch');
+
+    return update(storageConfig, (current) => deepMerge(current, partial), options);
+  }
+
+  /**
+   * Clears a value from storage for the given key.
+   * Same behavior as clear, for async storages.
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @returns {Promise<void>}
+   */
+  async function clearAsync<T>(storageConfig: SafeStorage<T>): Promise<void> {
+    const { key } = storageConfig;
+    const storageObj = resolveStorage(storageConfig);
+
+    await storageObj.removeItem(key);
+    emit(storageConfig);
+  }
+
+  /**
+   * Initializes storage with the default value.
+   * Same behavior as init, for async storages and encrypted entries.
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @returns {Promise<boolean>} `true` if the default value was written
+   */
+  async function initAsync<T>(storageConfig: SafeStorage<T>): Promise<boolean> {
+    const { defaultValue } = storageConfig;
+    return setAsync(storageConfig, defaultValue);
+  }
+
+  /**
+   * Returns the stored value, initializing the entry only if it needs it.
+   * Same behavior as ensure, for async storages and encrypted entries.
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @returns {Promise<T>} The stored value or `defaultValue`
+   */
+  async function ensureAsync<T>(storageConfig: SafeStorage<T>): Promise<T> {
+    const result = await readAsync(storageConfig, resolveStorage(storageConfig));
+
+    if (result.success) {
+      return result.data;
+    }
+
+    const { defaultValue } = storageConfig;
+
+    if (shouldInitialize(result)) {
+      await setAsync(storageConfig, defaultValue, {});
+    }
+
+    return defaultValue;
+  }
+
+  /**
+   * Ensures several entries at once, e.g. on app start.
+   * Same behavior as ensureAll, for async storages and encrypted entries.
+   *
+   * @template Entries The storage configurations
+   * @param {Entries} storageConfigs - Storage configurations to ensure
+   * @returns The stored values or default values, in the same order
+   */
+  async function ensureAllAsync<const Entries extends readonly SafeStorage<unknown>[]>(
+    storageConfigs: Entries
+  ): Promise<SafeStorageValues<Entries>> {
+    const values = await Promise.all(
+      storageConfigs.map((storageConfig) => ensureAsync(storageConfig))
+    );
+
+    return values as SafeStorageValues<Entries>;
+  }
+
+  /**
+   * Updates a stored value from its current value.
+   * Same behavior as update, for async storages and encrypted entries.
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @param {(current: T) => T | Promise<T>} updater - Returns the next value
+   * @param {SafeStorageSetOptions} [options] - Optional options, same as set
+   * @returns {Promise<boolean>} `true` if a value was written
+   */
+  async function updateAsync<T>(
+    storageConfig: SafeStorage<T>,
+    updater: (current: T) => T | Promise<T>,
+    options?: SafeStorageSetOptions
+  ): Promise<boolean> {
+    const current =
+      (await getAsync(storageConfig, { onFailure: 'default' })) ?? storageConfig.defaultValue;
+
+    return setAsync(storageConfig, await updater(current), options);
+  }
+
+  /**
+   * Deep-merges a partial value into the stored value.
+   * Same behavior as patch, for async storages and encrypted entries.
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @param {DeepPartial<T>} partial - The values to merge
+   * @param {SafeStorageSetOptions} [options] - Optional options, same as set
+   * @returns {Promise<boolean>} `true` if a value was written
+   */
+  async function patchAsync<T>(
+    storageConfig: SafeStorage<T>,
+    partial: DeepPartial<T>,
+    options?: SafeStorageSetOptions
+  ): Promise<boolean> {
+    return updateAsync(storageConfig, (current) => deepMerge(current, partial), options);
+  }
+
+  /**
+   * Subscribes to value changes of an entry.
+   * - Fires after set/clear/init through this instance and on `storage` events from other tabs
+   * - The listener receives the validated value, read with the same rules as get
+   * - With `onFailure: "throw"`, failures are passed to `onError` instead of the listener
+   * - Errors thrown by the listener are passed to `onError`, or rethrown asynchronously without it
+   *
+   * @template T The type of the stored value
+   * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+   * @param {(value: T | null) => void} listener - Called with the new value
+   * @param {SafeStorageSubscribeOptions} [options] - Optional options
+   * @returns {() => void} Unsubscribe function
+   */
+  function subscribe<T>(
+    storageConfig: SafeStorage<T>,
+    listener: (value: T | null) => void,
+    options?: SafeStorageSubscribeOptions
+  ): () => void {
+    const { key, storage = defaultStorage } = storageConfig;
+    const { onError, ...getOptions } = options ?? {};
+
+    // Errors thrown by the listener must not break the write or the other subscribers
+    const deliver = (value: T | null) => {
+      try {
+        listener(value);
+      } catch (err) {
+        if (onError) {
+          onError(err);
+        } else {
+          // Reported like an error in an event listener
+          setTimeout(() => {
+            throw err;
+          });
+        }
+      }
+    };
+
+    // Repaired values are not written back with a notification, which would call the listener twice
+    const notify = () => {
+      // Async storages and encrypted values can only be read asynchronously
+      if (isAsyncStorage(storage) || storageConfig.encryption) {
+        loadAsync(storageConfig, getOptions, false).then(deliver, (err: unknown) => onError?.(err));
+        return;
+      }
+
+      let value: T | null;
+
+      try {
+        value = load(storageConfig, getOptions, false);
+      } catch (err) {
+        onError?.(err);
+        return;
+      }
+
+      deliver(value);
+    };
+
+    const subscriber = { key, storage, notify };
+    subscribers.add(subscriber);
+
+    // Other tabs only report changes to Web Storage
+    const storageKey = namespace === undefined ? key : `${namespace}:${key}`;
+    const onStorage = (event: StorageEvent) => {
+      if (
+        typeof storage === 'string' &&
+        event.storageArea === getWebStorage(storage) &&
+        (event.key === null || event.key === storageKey)
+      ) {
+        notify();
+      }
+    };
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', onStorage);
+    }
+
+    return () => {
+      subscribers.delete(subscriber);
+
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('storage', onStorage);
+      }
+    };
+  }
+
+  /**
+   * Lists the keys of this instance in storage, without the namespace prefix.
+   *
+   * @param {StorageType | StorageAdapter} [storage] - The storage to scan, defaults to the instance storage
+   * @returns {string[]} The keys found in storage
+   */
+  function keys(storage?: StorageType | StorageAdapter): string[] {
+    return resolveSyncStorage({ storage: storage ?? defaultStorage }).keys();
+  }
+
+  /**
+   * Removes every key of this instance from storage, leaving other keys untouched.
+   *
+   * @param {StorageType | StorageAdapter} [storage] - The storage to clear, defaults to the instance storage
+   * @returns {void}
+   * @throws {ZodStorageError} If the instance has no namespace, since its keys cannot be told apart from others
+   */
+  function clearNamespace(storage?: StorageType | StorageAdapter): void {
+    if (namespace === undefined) {
+      throw new ZodStorageError(
+        'clearNamespace requires an instance created with a namespace, use clear for single entries',
+        { storage: storage ?? defaultStorage }
+      );
+    }
+
+    const storageObj = resolveSyncStorage({ storage: storage ?? defaultStorage });
+
+    storageObj.keys().forEach((key) => storageObj.removeItem(key));
+  }
+
+  /**
+   * Size of a stored key and value in bytes, as counted by Web Storage quotas (UTF-16).
+   */
+  const byteSize = (key: string, raw: string) =>
+    ((namespace === undefined ? 0 : namespace.length + 1) + key.length + raw.length) * 2;
+
+  const toAuditError = (err: unknown): Error =>
+    err instanceof Error ? err : new Error(String(err));
+
+  /**
+   * Checks the stored value of an entry without modifying storage.
+   */
+  const inspect = (storageConfig: SafeStorage<unknown>): StorageAuditEntry => {
+    const { key, storage = defaultStorage } = storageConfig;
+    const entry = { key, storage };
+
+    let storageObj: StorageAdapter | AsyncStorageAdapter;
+
+    try {
+      storageObj = resolveStorage(storageConfig);
+    } catch (err) {
+      // Web Storages that are unavailable with `fallback: "throw"`
+      if (err instanceof StorageUnavailableError) {
+        return { ...entry, status: 'unavailable', bytes: 0, error: err };
+      }
+
+      throw err;
+    }
+
+    if (isAsyncStorage(storageObj)) {
+      return { ...entry, status: 'skipped', bytes: 0 };
+    }
+
+    let raw: string | null;
+
+    try {
+      raw = storageObj.getItem(key);
+    } catch (err) {
+      return { ...entry, status: 'unavailable', bytes: 0, error: toAuditError(err) };
+    }
+
+    if (raw === null) {
+      return { ...entry, status: 'missing', bytes: 0 };
+    }
+
+    const bytes = byteSize(key, raw);
+
+    if (isEncrypted(raw)) {
+      return { ...entry, status: 'skipped', bytes };
+    }
+
+    let decoded: ReturnType<typeof decode<unknown>>;
+
+    try {
+      decoded = decode(storageConfig, raw);
+    } catch (err) {
+      return { ...entry, status: 'unparsable', bytes, error: toAuditError(err) };
+    }
+
+    if (decoded.expired) {
+      return { ...entry, status: 'expired', bytes };
+    }
+
+    return decoded.result.success
+      ? { ...entry, status: 'valid', bytes }
+      : { ...entry, status: 'invalid', bytes, issues: formatIssues(decoded.result.error) };
+  };
+
+  /**
+   * Checks the health of stored entries and finds keys that no entry claims.
+   * - Reports for each entry whether its value is valid, missing, expired, unparsable or invalid
+   * - Scans localStorage, sessionStorage and the sync storages of the entries for orphan keys
+   * - With `fix`, clears or reinitializes unparsable and invalid entries
+   *   (`fix: "init"` keeps values written by a newer schema version, same as ensure)
+   *
+   * Storage is only modified when `fix` is set. Async storages and encrypted values are skipped.
+   *
+   * @example
+   * ```ts
+   * const report = zodStorage.audit([ThemeData, SettingsData], { fix: 'init' });
+   *
+   * report.entries.filter((entry) => entry.status === 'invalid');
+   * report.orphans.forEach(({ key }) => console.warn(`Unknown key "${key}"`));
+   * ```
+   *
+   * @param storageConfigs - Entries to audit, as a list or by name (e.g. defineStorage entries)
+   * @param {StorageAuditOptions} [options] - Optional options
+   * @returns {StorageAuditReport} The status of each entry and the orphan keys
+   */
+  function audit(
+    storageConfigs:
+      | readonly SafeStorage<unknown>[]
+      | Readonly<Record<string, SafeStorage<unknown>>>,
+    options?: StorageAuditOptions
+  ): StorageAuditReport {
+    const { fix } = options ?? {};
+    const list: SafeStorage<unknown>[] = Object.values(storageConfigs);
+
+    const entries = list.map((storageConfig) => {
+      const entry = inspect(storageConfig);
+
+      if (fix === undefined || (entry.status !== 'unparsable' && entry.status !== 'invalid')) {
+        return entry;
+      }
+
+      // Values written by a newer schema version are kept, same as ensure
+      if (
+        fix === 'init' &&
+        entry.status === 'unparsable' &&
+        entry.error instanceof NewerVersionError
+      ) {
+        return { ...entry, fixed: false };
+      }
+
+      try {
+        if (fix === 'clear') {
+          clear(storageConfig);
+          return { ...entry, fixed: true };
+        }
+
+        return { ...entry, fixed: init(storageConfig) };
+      } catch {
+        return { ...entry, fixed: false };
+      }
+    });
+
+    const storages = new Set<StorageType | StorageAdapter>(['local', 'session']);
+
+    list.forEach(({ storage = defaultStorage }) => {
+      if (!isAsyncStorage(storage)) {
+        storages.add(storage);
+      }
+    });
+
+    const orphans: StorageAuditOrphan[] = [];
+
+    storages.forEach((storage) => {
+      const claimed = new Set(
+        list
+          .filter((storageConfig) => (storageConfig.storage ?? defaultStorage) === storage)
+          .map(({ key }) => key)
+      );
+
+      try {
+        const storageObj = resolveSyncStorage({ storage });
+
+        storageObj.keys().forEach((key) => {
+          const raw = storageObj.getItem(key);
+
+          if (!claimed.has(key) && raw !== null) {
+            orphans.push({ key, storage, bytes: byteSize(key, raw) });
+          }
+        });
+      } catch {
+        // Storages that cannot be read have no keys to report
+      }
+    });
+
+    return { entries, orphans };
+  }
+
+  return {
+    get,
+    safeGet,
+    set,
+    clear,
+    init,
+    ensure,
+    ensureAll,
+    update,
+    patch,
+    subscribe,
+    keys,
+    clearNamespace,
+    audit,
+    /**
+     * Storage used by entries that do not specify one
+     */
+    defaultStorage,
+    /**
+     * Promise-based counterparts, required for async storages and encrypted entries
+     */
+    async: {
+      get: getAsync,
+      safeGet: safeGetAsync,
+      set: setAsync,
+      clear: clearAsync,
+      init: initAsync,
+      ensure: ensureAsync,
+      ensureAll: ensureAllAsync,
+      update: updateAsync,
+      patch: patchAsync,
+    },
+  };
+};
 
 /**
- * Initializes storage with the default value.
- * (Overwrites unconditionally without checking existence)
- *
- * @template T The type of the stored value
- * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
- * @returns {void}
+ * zodStorage instance type
  */
-function init<T>(storageConfig: SafeStorage<T>): void {
-  const { defaultValue } = storageConfig;
-  set(storageConfig, defaultValue);
-}
+export type ZodStorage = ReturnType<typeof createZodStorage>;
 
 /**
  * Type-safe Web Storage utility based on Zod schema
- * Supports both localStorage and sessionStorage.
+ * Supports localStorage, sessionStorage and custom StorageAdapters.
  *
  * @example
  * ```ts
@@ -133,4 +1573,4 @@ function init<T>(storageConfig: SafeStorage<T>): void {
  * const data = zodStorage.get(SessionData);
  * ```
  */
-export const zodStorage = { get, set, clear, init };
+export const zodStorage = createZodStorage();
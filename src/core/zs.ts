@@ -1,5 +1,19 @@
 import z, { ZodType } from 'zod';
-import { SafeStorage, StorageType } from '@/types/type';
+import {
+  AsyncStorageAdapter,
+  SafeStorage,
+  SafeStorageGetOptions,
+  StorageAdapter,
+  StorageEncryption,
+  StorageFallback,
+  StorageMigrations,
+  StorageSerializer,
+  StorageType,
+} from '@/types/type';
+import { isAsyncStorage } from '../utils/getStorageObject';
+import { collection } from './collection';
+import { formatIssues, StorageValidationError, ZodStorageError } from './errors';
+import { ZodStorage, zodStorage } from './zodStorage';
 
 /**
  * ZsConfig type definition
@@ -9,30 +23,267 @@ import { SafeStorage, StorageType } from '@/types/type';
  * @template Schema - A Zod schema type
  * @property {string} key - The storage key used to identify the stored value
  * @property {Schema} schema - The Zod schema used for validation
- * @property {z.infer<Schema>} defaultValue - The default value if no data is found
- * @property {StorageType} [storage] - The storage type (e.g., "local" or "session"), defaults to "local"
+ * @property {z.infer<Schema> | (() => z.infer<Schema>)} defaultValue - The default value if no data is found, or a factory creating it
+ * @property {StorageType | StorageAdapter | AsyncStorageAdapter} [storage] - The storage type ("local" or "session") or a custom adapter, defaults to "local"
+ * @property {StorageFallback} [fallback] - Behavior when the Web Storage is not available ("noop", "memory" or "throw"), defaults to "noop"
+ * @property {number} [version] - The schema version, persisted alongside the value
+ * @property {StorageMigrations} [migrations] - Migrations from version N to N + 1, keyed by N
+ * @property {number} [ttl] - Time-to-live in milliseconds, after which the value is treated as missing
+ * @property {StorageSerializer} [serializer] - Converts values to and from stored strings, defaults to the instance serializer
+ * @property {boolean} [compress] - Compresses stored values (uncompressed values are still read)
+ * @property {StorageEncryption} [encryption] - Encrypts stored values with AES-GCM (requires the async get/set)
+ * @property {number} [priority] - Eviction priority, lower priorities are evicted first, defaults to 0
+ * @property {boolean} [evictable] - Allows the entry to be evicted when a write exceeds the quota, defaults to false
  */
 export type ZsConfig<Schema extends ZodType> = {
   key: string;
   schema: Schema;
-  defaultValue: z.infer<Schema>;
-  storage?: StorageType;
+  defaultValue: z.infer<Schema> | (() => z.infer<Schema>);
+  storage?: StorageType | StorageAdapter | AsyncStorageAdapter;
+  fallback?: StorageFallback;
+  version?: number;
+  migrations?: StorageMigrations;
+  ttl?: number;
+  serializer?: StorageSerializer;
+  compress?: boolean;
+  encryption?: StorageEncryption;
+  priority?: number;
+  evictable?: boolean;
+};
+
+/**
+ * Configuration of a family of entries, with a key built from each member's id
+ *
+ * @template Schema - A Zod schema type
+ * @template Id - The member id type
+ * @property {(id: Id) => string} key - Builds the storage key of a member, must include the id exactly once, as-is
+ */
+export type ZsFamilyConfig<Schema extends ZodType, Id extends string = string> = Omit<
+  ZsConfig<Schema>,
+  'key'
+> & {
+  key: (id: Id) => string;
+};
+
+/**
+ * Options type for zs.family
+ */
+export interface ZsFamilyOptions {
+  /**
+   * zodStorage instance used to find, read and clear the members.
+   * Default: `zodStorage`
+   */
+  instance?: ZodStorage;
+}
+
+/**
+ * Family of entries sharing a schema, created with zs.family.
+ * Calling it with an id returns the entry of that member.
+ *
+ * @template T The type of the stored values
+ * @template Id The member id type
+ */
+export interface StorageFamily<T, Id extends string = string> {
+  (id: Id): SafeStorage<T>;
+  /**
+   * Lists the ids of the members currently in storage
+   */
+  keys(): Id[];
+  /**
+   * Reads every member currently in storage, same as get
+   */
+  getAll(options?: SafeStorageGetOptions): Partial<Record<Id, T | null>>;
+  /**
+   * Removes every member from storage
+   */
+  clearAll(): void;
+}
+
+// Placeholder id used to find where the id goes in the keys of a family
+const ID_SENTINEL = '\u0000';
+
+/**
+ * Returns a function creating fresh default values: the factory itself, or deep copies of a static value.
+ * Values that cannot be cloned are returned as-is.
+ */
+const toDefaultFactory = <T>(defaultValue: T | (() => T)): (() => T) => {
+  if (typeof defaultValue === 'function') {
+    return defaultValue as () => T;
+  }
+
+  return () => {
+    try {
+      return structuredClone(defaultValue);
+    } catch {
+      return defaultValue;
+    }
+  };
+};
+
+/**
+ * Throws if a default value does not match the schema of its entry.
+ */
+const assertValidDefault = (
+  { key, schema, storage }: Pick<ZsConfig<ZodType>, 'key' | 'schema' | 'storage'>,
+  value: unknown,
+  subject: string
+) => {
+  const result = schema.safeParse(value);
+
+  if (!result.success) {
+    throw new StorageValidationError(
+      `${subject} of "${key}" does not match the schema: ${formatIssues(result.error)}`,
+      { key, storage, cause: result.error }
+    );
+  }
 };
 
 /**
  * Creates a SafeStorage configuration object.
+ * - Every read of `defaultValue` returns a fresh value, so mutating it never affects later reads
+ * - A static `defaultValue` is validated against the schema once,
+ *   a factory is called lazily on each read and every value it returns is validated
  *
  * @template Schema The Zod schema type
  * @param {ZsConfig<Schema>} config - Storage configuration
  * @returns {SafeStorage<z.infer<Schema>>} SafeStorage configuration object
+ * @throws {StorageValidationError} If the static `defaultValue` does not match the schema
+ *   (reading `defaultValue` throws it if the factory returns an invalid value)
  */
 export const zs = <Schema extends ZodType>(
   config: ZsConfig<Schema>
 ): SafeStorage<z.infer<Schema>> => {
+  const { defaultValue } = config;
+  const isFactory = typeof defaultValue === 'function';
+
+  if (!isFactory) {
+    assertValidDefault(config, defaultValue, 'The default value');
+  }
+
+  const createDefault = toDefaultFactory<z.infer<Schema>>(defaultValue);
+
   return {
     key: config.key,
     value: config.schema,
-    defaultValue: config.defaultValue,
+    get defaultValue() {
+      const value = createDefault();
+
+      // Factory results are checked on every call, so an invalid one is never written
+      if (isFactory) {
+        assertValidDefault(config, value, 'The default value factory result');
+      }
+
+      return value;
+    },
     storage: config.storage,
+    fallback: config.fallback,
+    version: config.version,
+    migrations: config.migrations,
+    ttl: config.ttl,
+    serializer: config.serializer,
+    compress: config.compress,
+    encryption: config.encryption,
+    priority: config.priority,
+    evictable: config.evictable,
   };
 };
+
+/**
+ * Creates a family of entries for per-id values (drafts per document, caches per user, ...).
+ * - Members share the schema and options, and are created on demand by calling the family with an id
+ * - Members currently in storage are found by matching stored keys against the key function
+ *
+ * @example
+ * ```ts
+ * const DraftData = zs.family({
+ *   key: (id: string) => `draft:${id}`,
+ *   schema: z.string(),
+ *   defaultValue: '',
+ * });
+ *
+ * zodStorage.set(DraftData('doc-1'), 'Hello');
+ * DraftData.keys(); // ['doc-1']
+ * DraftData.clearAll();
+ * ```
+ *
+ * @template Schema The Zod schema type
+ * @template Id The member id type
+ * @param {ZsFamilyConfig<Schema, Id>} config - Family configuration
+ * @param {ZsFamilyOptions} [options] - Optional options
+ * @returns {StorageFamily<z.infer<Schema>, Id>} The family
+ * @throws {ZodStorageError} If the key function does not include the id exactly once
+ * @throws {StorageValidationError} If the static `defaultValue` does not match the schema
+ */
+zs.family = <Schema extends ZodType, Id extends string = string>(
+  config: ZsFamilyConfig<Schema, Id>,
+  options: ZsFamilyOptions = {}
+): StorageFamily<z.infer<Schema>, Id> => {
+  const { key: toKey, ...entryConfig } = config;
+  const { instance = zodStorage } = options;
+
+  const parts = toKey(ID_SENTINEL as Id).split(ID_SENTINEL);
+
+  if (parts.length !== 2) {
+    throw new ZodStorageError('The key function of a family must include the id exactly once', {
+      storage: config.storage,
+    });
+  }
+
+  const [prefix, suffix] = parts;
+
+  // Validates the default value once, before any member is created
+  zs({ ...entryConfig, key: `${prefix}*${suffix}` });
+
+  const members = new Map<Id, SafeStorage<z.infer<Schema>>>();
+
+  const member = (id: Id) => {
+    const existing = members.get(id);
+
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const entry = zs({ ...entryConfig, key: toKey(id) });
+
+    members.set(id, entry);
+
+    return entry;
+  };
+
+  const toId = (key: string) => key.slice(prefix.length, key.length - suffix.length) as Id;
+
+  const keys = () => {
+    const { storage } = config;
+
+    if (storage !== undefined && isAsyncStorage(storage)) {
+      throw new Error(`Family "${prefix}*${suffix}" is async and its members cannot be listed`);
+    }
+
+    // Keys the function would not build from the extracted id belong to another entry
+    return instance
+      .keys(storage)
+      .filter(
+        (key) =>
+          key.length > prefix.length + suffix.length &&
+          key.startsWith(prefix) &&
+          key.endsWith(suffix) &&
+          toKey(toId(key)) === key
+      )
+      .map(toId);
+  };
+
+  return Object.assign(member, {
+    keys,
+    getAll: (getOptions?: SafeStorageGetOptions) =>
+      Object.fromEntries(
+        keys().map((id) => [id, instance.get(member(id), getOptions ?? {})])
+      ) as Partial<Record<Id, z.infer<Schema> | null>>,
+    clearAll: () => keys().forEach((id) => instance.clear(member(id))),
+  });
+};
+
+/**
+ * Creates a collection of items stored by id, with per-item validation.
+ * @see collection
+ */
+zs.collection = collection;
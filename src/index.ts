@@ -1,5 +1,65 @@
 export { zs } from './core/zs';
-export { zodStorage } from './core/zodStorage';
+export { defineStorage } from './core/defineStorage';
+export type {
+  ExportSnapshotOptions,
+  ImportSnapshotOptions,
+  SnapshotEntries,
+  SnapshotImportReport,
+  SnapshotImportResult,
+  StorageSnapshot,
+} from './core/snapshot';
+export { exportSnapshot, importSnapshot } from './core/snapshot';
+export { zodStorage, createZodStorage } from './core/zodStorage';
+export { createMemoryStorage } from './adapters/memoryStorage';
+export { createPrefixedStorage } from './adapters/prefixedStorage';
+export { createIndexedDBStorage } from './adapters/indexedDBStorage';
+export { jsonSerializer } from './serializers/jsonSerializer';
+export { taggedJsonSerializer } from './serializers/taggedJsonSerializer';
+export { isStorageAvailable } from './utils/isStorageAvailable';
+export {
+  ZodStorageError,
+  StorageParseError,
+  StorageQuotaError,
+  StorageUnavailableError,
+  StorageValidationError,
+} from './core/errors';
 
-export type { ZsConfig } from './core/zs';
-export type { SafeStorage, SafeStorageGetOptions, StorageType } from './types/type';
+export type { StorageFamily, ZsConfig, ZsFamilyConfig, ZsFamilyOptions } from './core/zs';
+export type {
+  BoundStorageEntry,
+  DefineStorageOptions,
+  StorageEntries,
+  StorageEntryValues,
+  StorageNames,
+  StorageRegistry,
+} from './core/defineStorage';
+export type {
+  CollectionIdField,
+  CollectionWriteOptions,
+  StorageCollection,
+  ZsCollectionConfig,
+  ZsCollectionOptions,
+} from './core/collection';
+export type { ZodStorageErrorOptions } from './core/errors';
+export type { ZodStorage, ZodStorageOptions } from './core/zodStorage';
+export type { IndexedDBStorageOptions } from './adapters/indexedDBStorage';
+export type {
+  AsyncStorageAdapter,
+  DeepPartial,
+  SafeStorage,
+  SafeStorageFailureReason,
+  SafeStorageGetOptions,
+  SafeStorageRepairChange,
+  SafeStorageRepairReport,
+  SafeStorageResult,
+  SafeStorageValues,
+  StorageAdapter,
+  StorageAuditEntry,
+  StorageAuditOptions,
+  StorageAuditOrphan,
+  StorageAuditReport,
+  StorageAuditStatus,
+  StorageEvictionStrategy,
+  StorageQuotaPolicy,
+  StorageType,
+} from './types/type';
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { act, renderHook } from '@testing-library/react';
+import { z } from 'zod';
+import { zs } from '../../core/zs';
+import { createZodStorage, zodStorage } from '../../core/zodStorage';
+import { useZodStorage } from '../useZodStorage';
+
+describe('useZodStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const settings = zs({
+    key: 'settings',
+    schema: z.object({ theme: z.enum(['light', 'dark']), fontSize: z.number() }),
+    defaultValue: { theme: 'light', fontSize: 14 },
+  });
+
+  it('should return defaultValue when nothing is stored', () => {
+    const { result } = renderHook(() => useZodStorage(settings));
+
+    expect(result.current[0]).toEqual({ theme: 'light', fontSize: 14 });
+  });
+
+  it('should return the stored value', () => {
+    zodStorage.set(settings, { theme: 'dark', fontSize: 16 });
+    const { result } = renderHook(() => useZodStorage(settings));
+
+    expect(result.current[0]).toEqual({ theme: 'dark', fontSize: 16 });
+  });
+
+  it('should return defaultValue when the stored value is invalid', () => {
+    localStorage.setItem('settings', JSON.stringify({ theme: 'purple' }));
+    const { result } = renderHook(() => useZodStorage(settings));
+
+    expect(result.current[0]).toEqual({ theme: 'light', fontSize: 14 });
+  });
+
+  it('should write and re-render with setValue', () => {
+    const { result } = renderHook(() => useZodStorage(settings));
+
+    act(() => result.current[1]({ theme: 'dark', fontSize: 14 }));
+    expect(result.current[0]).toEqual({ theme: 'dark', fontSize: 14 });
+
+    act(() => result.current[1]((current) => ({ ...current, fontSize: current.fontSize + 2 })));
+    expect(result.current[0]).toEqual({ theme: 'dark', fontSize: 16 });
+    expect(zodStorage.get(settings)).toEqual({ theme: 'dark', fontSize: 16 });
+  });
+
+  it('should reset to defaultValue with clear', () => {
+    zodStorage.set(settings, { theme: 'dark', fontSize: 16 });
+    const { result } = renderHook(() => useZodStorage(settings));
+
+    act(() => result.current[2]());
+    expect(result.current[0]).toEqual({ theme: 'light', fontSize: 14 });
+    expect(localStorage.getItem('settings')).toBeNull();
+  });
+
+  it('should update on writes from outside the component', () => {
+    const { result } = renderHook(() => useZodStorage(settings));
+
+    act(() => {
+      zodStorage.set(settings, { theme: 'dark', fontSize: 12 });
+    });
+    expect(result.current[0]).toEqual({ theme: 'dark', fontSize: 12 });
+  });
+
+  it('should update on storage events from other tabs', () => {
+    const { result } = renderHook(() => useZodStorage(settings));
+
+    act(() => {
+      const newValue = JSON.stringify({ theme: 'dark', fontSize: 20 });
+      localStorage.setItem('settings', newValue);
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: 'settings', newValue, storageArea: localStorage })
+      );
+    });
+    expect(result.current[0]).toEqual({ theme: 'dark', fontSize: 20 });
+  });
+
+  it('should keep the same reference while the value is unchanged', () => {
+    zodStorage.set(settings, { theme: 'dark', fontSize: 16 });
+    const { result, rerender } = renderHook(() => useZodStorage(settings));
+    const first = result.current[0];
+
+    rerender();
+    expect(result.current[0]).toBe(first);
+  });
+
+  it('should use the given instance', () => {
+    const app = createZodStorage({ namespace: 'app' });
+    const { result } = renderHook(() => useZodStorage(settings, { instance: app }));
+
+    act(() => result.current[1]({ theme: 'dark', fontSize: 14 }));
+    expect(localStorage.getItem('app:settings')).toBe(
+      JSON.stringify({ theme: 'dark', fontSize: 14 })
+    );
+    expect(localStorage.getItem('settings')).toBeNull();
+  });
+
+  it('should render defaultValue on the server', () => {
+    zodStorage.set(settings, { theme: 'dark', fontSize: 16 });
+
+    const Theme = () => {
+      const [value] = useZodStorage(settings);
+      return createElement('span', null, value.theme);
+    };
+
+    expect(renderToString(createElement(Theme))).toBe('<span>light</span>');
+  });
+});
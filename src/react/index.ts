@@ -0,0 +1,3 @@
+export { useZodStorage } from './useZodStorage';
+
+export type { UseZodStorageOptions, UseZodStorageResult } from './useZodStorage';
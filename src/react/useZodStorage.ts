@@ -0,0 +1,111 @@
+import { useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import { SafeStorage } from '@/types/type';
+import { ZodStorage, zodStorage } from '../core/zodStorage';
+import { taggedJsonSerializer } from '../serializers/taggedJsonSerializer';
+
+/**
+ * Options type for useZodStorage
+ */
+export interface UseZodStorageOptions {
+  /**
+   * zodStorage instance used to read and write the entry.
+   * Default: `zodStorage`
+   */
+  instance?: ZodStorage;
+}
+
+/**
+ * Return type of useZodStorage: `[value, setValue, clear]`
+ */
+export type UseZodStorageResult<T> = [
+  value: T,
+  setValue: (value: T | ((current: T) => T)) => void,
+  clear: () => void,
+];
+
+type Snapshot<T> = {
+  value: T;
+  serialized: string;
+};
+
+/**
+ * React hook binding a storage entry to component state.
+ * - Missing or invalid values are returned as `defaultValue`
+ * - Re-renders on writes from this tab and on `storage` events from other tabs
+ * - Renders `defaultValue` on the server and during hydration
+ *
+ * @example
+ * ```tsx
+ * const [theme, setTheme, clearTheme] = useZodStorage(ThemeStorage);
+ *
+ * setTheme((current) => (current === 'light' ? 'dark' : 'light'));
+ * ```
+ *
+ * @template T The type of the stored value
+ * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+ * @param {UseZodStorageOptions} [options] - Optional options
+ * @returns {UseZodStorageResult<T>} The value, a setter and a clear function
+ */
+export function useZodStorage<T>(
+  storageConfig: SafeStorage<T>,
+  options?: UseZodStorageOptions
+): UseZodStorageResult<T> {
+  const instance = options?.instance ?? zodStorage;
+  const snapshotRef = useRef<Snapshot<T> & { storageConfig: SafeStorage<T> }>();
+
+  /**
+   * Re-reads the entry, keeping the previous reference if the value did not change
+   * so useSyncExternalStore does not re-render needlessly.
+   */
+  const refresh = useCallback(() => {
+    const value =
+      instance.get(storageConfig, { onFailure: 'default' }) ?? storageConfig.defaultValue;
+    // Tagged JSON also tells apart Dates, Maps and Sets, which plain JSON flattens
+    const serialized = taggedJsonSerializer.stringify(value);
+    const current = snapshotRef.current;
+
+    if (!current || current.storageConfig !== storageConfig || current.serialized !== serialized) {
+      snapshotRef.current = { storageConfig, value, serialized };
+    }
+  }, [instance, storageConfig]);
+
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => {
+      const unsubscribe = instance.subscribe(storageConfig, () => {
+        refresh();
+        onStoreChange();
+      });
+
+      // Catch changes made between render and subscription
+      refresh();
+
+      return unsubscribe;
+    },
+    [instance, storageConfig, refresh]
+  );
+
+  const getSnapshot = () => {
+    if (snapshotRef.current?.storageConfig !== storageConfig) {
+      refresh();
+    }
+
+    return (snapshotRef.current as Snapshot<T>).value;
+  };
+
+  const serverSnapshot = useMemo(() => storageConfig.defaultValue, [storageConfig]);
+  const value = useSyncExternalStore(subscribe, getSnapshot, () => serverSnapshot);
+
+  const setValue = useCallback(
+    (next: T | ((current: T) => T)) => {
+      const current = (snapshotRef.current as Snapshot<T> | undefined)?.value ?? serverSnapshot;
+      const resolved = typeof next === 'function' ? (next as (current: T) => T)(current) : next;
+
+      instance.set(storageConfig, resolved);
+    },
+    [instance, storageConfig, serverSnapshot]
+  );
+
+  const clear = useCallback(() => instance.clear(storageConfig), [instance, storageConfig]);
+
+  return [value, setValue, clear];
+}
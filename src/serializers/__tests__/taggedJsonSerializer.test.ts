@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../../core/zs';
+import { createZodStorage, zodStorage } from '../../core/zodStorage';
+import { taggedJsonSerializer } from '../taggedJsonSerializer';
+
+const roundTrip = (value: unknown) =>
+  taggedJsonSerializer.parse(taggedJsonSerializer.stringify(value));
+
+describe('taggedJsonSerializer', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('round trip', () => {
+    it('should keep plain JSON values unchanged', () => {
+      const value = { a: 1, b: ['x', null, true], c: { d: 'e' } };
+
+      expect(roundTrip(value)).toEqual(value);
+      expect(taggedJsonSerializer.stringify(value)).toBe(JSON.stringify(value));
+    });
+
+    it('should preserve Date', () => {
+      const date = new Date('2024-01-01T00:00:00.000Z');
+      const result = roundTrip(date);
+
+      expect(result).toBeInstanceOf(Date);
+      expect(result).toEqual(date);
+    });
+
+    it('should preserve invalid Date', () => {
+      const result = roundTrip(new Date(NaN)) as Date;
+
+      expect(result).toBeInstanceOf(Date);
+      expect(result.getTime()).toBeNaN();
+    });
+
+    it('should preserve Map with non-string keys', () => {
+      const map = new Map<unknown, unknown>([
+        [1, 'one'],
+        [new Date(0), new Set([1])],
+      ]);
+
+      expect(roundTrip(map)).toEqual(map);
+    });
+
+    it('should preserve Set', () => {
+      expect(roundTrip(new Set(['a', 'b']))).toEqual(new Set(['a', 'b']));
+    });
+
+    it('should preserve BigInt', () => {
+      expect(roundTrip(12345678901234567890n)).toBe(12345678901234567890n);
+    });
+
+    it('should preserve undefined', () => {
+      expect(roundTrip(undefined)).toBeUndefined();
+      expect(roundTrip([1, undefined, 3])).toEqual([1, undefined, 3]);
+
+      const object = roundTrip({ a: undefined }) as Record<string, unknown>;
+      expect('a' in object).toBe(true);
+      expect(object.a).toBeUndefined();
+    });
+
+    it('should preserve nested rich types', () => {
+      const value = { createdAt: new Date(0), tags: new Set(['a']), nested: [{ id: 1n }] };
+
+      expect(roundTrip(value)).toEqual(value);
+    });
+
+    it('should escape objects using the tag key', () => {
+      const value = { $zs: 'Date', value: 'not a date' };
+
+      expect(roundTrip(value)).toEqual(value);
+    });
+
+    it('should throw on malformed input', () => {
+      expect(() => taggedJsonSerializer.parse('not json')).toThrow();
+      expect(() => taggedJsonSerializer.parse('{"$zs":"Unknown"}')).toThrow();
+    });
+  });
+
+  describe('with zodStorage', () => {
+    it('should round-trip z.date, z.map, z.set and z.bigint schemas', () => {
+      const storage = zs({
+        key: 'rich',
+        schema: z.object({
+          createdAt: z.date(),
+          scores: z.map(z.string(), z.number()),
+          tags: z.set(z.string()),
+          total: z.bigint(),
+          note: z.string().optional(),
+        }),
+        defaultValue: {
+          createdAt: new Date(0),
+          scores: new Map<string, number>(),
+          tags: new Set<string>(),
+          total: 0n,
+        },
+        serializer: taggedJsonSerializer,
+      });
+      const value = {
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+        scores: new Map([['alice', 10]]),
+        tags: new Set(['a', 'b']),
+        total: 10n,
+        note: undefined,
+      };
+
+      expect(zodStorage.set(storage, value)).toBe(true);
+
+      const result = zodStorage.get(storage);
+      expect(result?.createdAt).toBeInstanceOf(Date);
+      expect(result).toEqual(value);
+    });
+
+    it('should use the instance serializer by default', () => {
+      const rich = createZodStorage({ serializer: taggedJsonSerializer });
+      const storage = zs({ key: 'date', schema: z.date(), defaultValue: new Date(0) });
+      const date = new Date('2024-01-01T00:00:00.000Z');
+
+      rich.set(storage, date);
+      expect(rich.get(storage)).toEqual(date);
+      expect(zodStorage.get(storage)).toBeNull();
+    });
+
+    it('should combine with envelopes', () => {
+      const storage = zs({
+        key: 'versionedDate',
+        schema: z.date(),
+        defaultValue: new Date(0),
+        version: 1,
+        serializer: taggedJsonSerializer,
+      });
+      const date = new Date('2024-01-01T00:00:00.000Z');
+
+      zodStorage.set(storage, date);
+      expect(zodStorage.get(storage)).toEqual(date);
+    });
+
+    it('should treat malformed values as parse failures', () => {
+      const storage = zs({
+        key: 'broken',
+        schema: z.date(),
+        defaultValue: new Date(0),
+        serializer: taggedJsonSerializer,
+      });
+
+      localStorage.setItem('broken', '{"$zs":"Unknown"}');
+      expect(zodStorage.get(storage)).toBeNull();
+      expect(zodStorage.get(storage, { onFailure: 'default' })).toEqual(new Date(0));
+    });
+  });
+});
@@ -0,0 +1,10 @@
+import { StorageSerializer } from '@/types/type';
+
+/**
+ * Plain JSON serializer (default).
+ * Dates are stored as strings; Map, Set, BigInt and undefined are not preserved.
+ */
+export const jsonSerializer: StorageSerializer = {
+  stringify: (value) => JSON.stringify(value),
+  parse: (raw) => JSON.parse(raw) as unknown,
+};
@@ -0,0 +1,109 @@
+import { StorageSerializer } from '@/types/type';
+
+const TAG = '$zs';
+
+type Tagged =
+  | { [TAG]: 'Date'; value: string | null }
+  | { [TAG]: 'Map'; value: [unknown, unknown][] }
+  | { [TAG]: 'Set'; value: unknown[] }
+  | { [TAG]: 'BigInt'; value: string }
+  | { [TAG]: 'undefined' }
+  | { [TAG]: 'Object'; value: Record<string, unknown> };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null);
+
+const encode = (value: unknown): unknown => {
+  if (value === undefined) {
+    return { [TAG]: 'undefined' } satisfies Tagged;
+  }
+
+  if (typeof value === 'bigint') {
+    return { [TAG]: 'BigInt', value: value.toString() } satisfies Tagged;
+  }
+
+  if (value instanceof Date) {
+    // Invalid dates have no ISO representation
+    const time = value.getTime();
+    return {
+      [TAG]: 'Date',
+      value: Number.isNaN(time) ? null : value.toISOString(),
+    } satisfies Tagged;
+  }
+
+  if (value instanceof Map) {
+    return {
+      [TAG]: 'Map',
+      value: Array.from(value, ([key, entry]): [unknown, unknown] => [encode(key), encode(entry)]),
+    } satisfies Tagged;
+  }
+
+  if (value instanceof Set) {
+    return { [TAG]: 'Set', value: Array.from(value, encode) } satisfies Tagged;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(encode);
+  }
+
+  if (isPlainObject(value)) {
+    const encoded = Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, encode(entry)])
+    );
+
+    // Escape objects that happen to use the tag key so they are not mistaken for tagged values
+    return TAG in value ? ({ [TAG]: 'Object', value: encoded } satisfies Tagged) : encoded;
+  }
+
+  return value;
+};
+
+const decodeEntries = (value: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, decode(entry)]));
+
+const decode = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(decode);
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  if (!(TAG in value)) {
+    return decodeEntries(value);
+  }
+
+  const tagged = value as Tagged;
+
+  switch (tagged[TAG]) {
+    case 'undefined':
+      return undefined;
+    case 'BigInt':
+      return BigInt(tagged.value);
+    case 'Date':
+      return new Date(tagged.value ?? NaN);
+    case 'Map':
+      return new Map(tagged.value.map(([key, entry]) => [decode(key), decode(entry)]));
+    case 'Set':
+      return new Set(tagged.value.map(decode));
+    case 'Object':
+      return decodeEntries(tagged.value);
+    default:
+      throw new Error(
+        `Unknown serialized type: ${String((tagged as Record<string, unknown>)[TAG])}`
+      );
+  }
+};
+
+/**
+ * JSON serializer preserving Date, Map, Set, BigInt and undefined.
+ * These values are stored as tagged objects (e.g. `{ "$zs": "Date", "value": "2024-01-01T00:00:00.000Z" }`)
+ * and restored on parse, so `z.date()`, `z.map()`, `z.set()` and `z.bigint()` schemas round-trip.
+ */
+export const taggedJsonSerializer: StorageSerializer = {
+  stringify: (value) => JSON.stringify(encode(value)),
+  parse: (raw) => decode(JSON.parse(raw)),
+};
@@ -1,10 +1,119 @@
-import { ZodType } from 'zod';
+import { ZodError, ZodIssue, ZodType } from 'zod';
 
 /**
  * Storage type
  */
 export type StorageType = 'local' | 'session';
 
+/**
+ * Asynchronous key/value backend (IndexedDB, remote stores, ...).
+ * Entries using one must be read and written with the async API.
+ */
+export interface AsyncStorageAdapter {
+  /**
+   * Marks the adapter as asynchronous
+   */
+  readonly async: true;
+  /**
+   * Resolves the raw string stored under `key`, or `null` if there is none.
+   */
+  getItem(key: string): Promise<string | null>;
+  /**
+   * Stores the raw string `value` under `key`.
+   */
+  setItem(key: string, value: string): Promise<void>;
+  /**
+   * Removes the value stored under `key`.
+   */
+  removeItem(key: string): Promise<void>;
+  /**
+   * Resolves every key currently held by the adapter.
+   */
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Behavior when a Web Storage is not available (SSR, Web Workers, blocked storage)
+ *
+ * - "noop": Reads return nothing and writes are discarded
+ * - "memory": Values are kept in an in-memory shim for the lifetime of the page/process
+ * - "throw": Throws a StorageUnavailableError
+ */
+export type StorageFallback = 'noop' | 'memory' | 'throw';
+
+/**
+ * Minimal key/value backend a storage entry can be pointed at.
+ *
+ * Implement this to plug any synchronous store (cookies, an in-memory map,
+ * a wrapped Web Storage, ...) into `zodStorage`.
+ */
+export interface StorageAdapter {
+  /**
+   * Returns the raw string stored under `key`, or `null` if there is none.
+   */
+  getItem(key: string): string | null;
+  /**
+   * Stores the raw string `value` under `key`.
+   */
+  setItem(key: string, value: string): void;
+  /**
+   * Removes the value stored under `key`.
+   */
+  removeItem(key: string): void;
+  /**
+   * Returns every key currently held by the adapter.
+   */
+  keys(): string[];
+}
+
+/**
+ * Converts values to and from the raw strings kept in storage.
+ */
+export interface StorageSerializer {
+  /**
+   * Converts a value to the raw string to store.
+   */
+  stringify(value: unknown): string;
+  /**
+   * Converts a raw stored string back to a value. Throws if the string is malformed.
+   */
+  parse(raw: string): unknown;
+}
+
+/**
+ * At-rest encryption settings of a storage entry (AES-GCM via WebCrypto)
+ */
+export interface StorageEncryption {
+  /**
+   * AES-GCM key, or a function resolving it (e.g. derived from a password or fetched lazily)
+   */
+  key: CryptoKey | (() => CryptoKey | Promise<CryptoKey>);
+}
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ * The function under key N receives a value stored at version N and returns it at version N + 1.
+ */
+export type StorageMigrations = Record<number, (value: unknown) => unknown>;
+
+/**
+ * Behavior when a write exceeds the storage quota
+ *
+ * - "throw": Throws a StorageQuotaError
+ * - "skip": Leaves storage untouched
+ * - "evict": Removes evictable entries until the write fits, then throws if it still does not
+ */
+export type StorageQuotaPolicy = 'throw' | 'skip' | 'evict';
+
+/**
+ * Order in which evictable entries are removed to make room for a write
+ *
+ * - "priority": Lowest `priority` first, then least recently used
+ * - "lru": Least recently used first
+ * - "expired-first": Expired entries first, then by priority
+ */
+export type StorageEvictionStrategy = 'priority' | 'lru' | 'expired-first';
+
 /**
  * Type defining type-safe storage entry configuration
  *
@@ -20,16 +129,71 @@ export type StorageType = 'local' | 'session';
  *
  * @property {T} defaultValue
  *   - Default value for initialization
+ *   - Entries created with `zs` return a fresh value on every read
  *
- * @property {StorageType} storage
- *   - Storage type to use ("local" | "session")
+ * @property {StorageType | StorageAdapter | AsyncStorageAdapter} storage
+ *   - Storage type to use ("local" | "session") or a custom adapter
+ *   - Entries with an AsyncStorageAdapter must use the async get/set/clear/init
  *   - Default: "local"
+ *
+ * @property {StorageFallback} fallback
+ *   - Behavior when the Web Storage is not available ("noop" | "memory" | "throw")
+ *   - Default: "noop"
+ *
+ * @property {number} version
+ *   - Schema version persisted alongside the value
+ *   - Values stored without a version are treated as version 0
+ *
+ * @property {StorageMigrations} migrations
+ *   - Migrations applied on get to upgrade values stored at an older version
+ *
+ * @property {number} ttl
+ *   - Time-to-live in milliseconds applied on every set
+ *   - Expired values are removed and treated as missing on get
+ *
+ * @property {StorageSerializer} serializer
+ *   - Converts values to and from stored strings
+ *   - Default: the instance serializer (plain JSON)
+ *
+ * @property {boolean} compress
+ *   - Compresses serialized values before writing them
+ *   - Uncompressed values are still read, so it can be turned on for existing data
+ *
+ * @property {StorageEncryption} encryption
+ *   - Encrypts values at rest with AES-GCM
+ *   - Encrypted entries must be read and written with the async get/set
+ *
+ * @property {number} priority
+ *   - Eviction priority, entries with a lower priority are evicted first
+ *   - Writes only evict entries with a priority lower than or equal to their own
+ *   - Default: 0
+ *
+ * @property {boolean} evictable
+ *   - Allows the entry to be removed to make room when a write exceeds the quota
+ *   - Encrypted entries are never evicted
+ *   - Default: false
  */
 export type SafeStorage<T> = {
   key: string;
   value: ZodType<T>;
   defaultValue: T;
-  storage?: StorageType;
+  storage?: StorageType | StorageAdapter | AsyncStorageAdapter;
+  fallback?: StorageFallback;
+  version?: number;
+  migrations?: StorageMigrations;
+  ttl?: number;
+  serializer?: StorageSerializer;
+  compress?: boolean;
+  encryption?: StorageEncryption;
+  priority?: number;
+  evictable?: boolean;
+};
+
+/**
+ * Maps a tuple of storage configurations to the tuple of their value types
+ */
+export type SafeStorageValues<Entries extends readonly SafeStorage<unknown>[]> = {
+  -readonly [K in keyof Entries]: Entries[K] extends SafeStorage<infer T> ? T : never;
 };
 
 /**
@@ -41,7 +205,202 @@ export interface SafeStorageGetOptions {
    *
    * - "null": Returns `null` on failure (default)
    * - "default": Returns `defaultValue` on failure
-   * - "throw": Throws an exception on failure
+   * - "throw": Throws a StorageParseError, StorageValidationError or StorageUnavailableError on failure
+   * - "repair": Salvages the valid parts of a value that fails validation and writes it back,
+   *   returns `defaultValue` if it cannot be repaired or could not be parsed
+   */
+  onFailure?: 'default' | 'null' | 'throw' | 'repair';
+
+  /**
+   * Called after a value was repaired with `onFailure: "repair"`.
+   */
+  onRepair?: (report: SafeStorageRepairReport) => void;
+}
+
+/**
+ * A change made while repairing a stored value
+ *
+ * - "default": The field was replaced with the same field of `defaultValue` (removed if it has none)
+ * - "drop": The array element was removed
+ * - "strip": The unknown key was removed
+ */
+export type SafeStorageRepairChange = {
+  path: (string | number)[];
+  action: 'default' | 'drop' | 'strip';
+};
+
+/**
+ * Describes how a stored value was repaired
+ *
+ * @property {string} key - Key of the repaired entry
+ * @property {SafeStorageRepairChange[]} changes - The changes made, in order
+ * @property {ZodIssue[]} issues - The validation issues of the stored value
+ */
+export interface SafeStorageRepairReport {
+  key: string;
+  changes: SafeStorageRepairChange[];
+  issues: ZodIssue[];
+}
+
+/**
+ * Why a safeGet read did not produce a value
+ *
+ * - "missing": Nothing is stored under the key, or the value expired
+ * - "parse": The stored string could not be decoded (corrupt JSON, failed migration, decryption error, ...)
+ * - "validation": The decoded value does not match the schema
+ * - "unavailable": The storage could not be accessed
+ */
+export type SafeStorageFailureReason = 'missing' | 'parse' | 'validation' | 'unavailable';
+
+/**
+ * Result type of SafeStorage safeGet method
+ *
+ * @property {true} success - The value was read and validated
+ * @property {T} data - The validated value
+ * @property {false} success - The value could not be read
+ * @property {SafeStorageFailureReason} reason - Why the read failed
+ * @property {Error | null} error - The underlying error, `null` when the value is missing
+ * @property {string | null} raw - The stored string, `null` when nothing could be read
+ * @property {unknown} value - The decoded value that failed validation (validation failures only)
+ */
+export type SafeStorageResult<T> =
+  | { success: true; data: T }
+  | { success: false; reason: 'missing'; error: null; raw: null }
+  | { success: false; reason: 'parse'; error: Error; raw: string }
+  | { success: false; reason: 'validation'; error: ZodError; raw: string; value: unknown }
+  | { success: false; reason: 'unavailable'; error: Error; raw: null };
+
+/**
+ * Options type for SafeStorage set method
+ */
+export interface SafeStorageSetOptions {
+  /**
+   * Specifies behavior when the data fails schema validation.
+   *
+   * - "skip": Leaves storage untouched (default)
+   * - "default": Writes `defaultValue` instead
+   * - "throw": Throws a StorageValidationError
+   */
+  onInvalid?: 'default' | 'skip' | 'throw';
+
+  /**
+   * Time-to-live in milliseconds for this write, overriding the entry's `ttl`.
+   */
+  ttl?: number;
+
+  /**
+   * Specifies behavior when the write exceeds the storage quota.
+   *
+   * - "throw": Throws a StorageQuotaError (default)
+   * - "skip": Leaves storage untouched
+   * - "evict": Removes evictable entries and retries
+   */
+  onQuotaExceeded?: StorageQuotaPolicy;
+
+  /**
+   * Order in which entries are evicted with `onQuotaExceeded: "evict"`.
+   * Default: "priority"
+   */
+  eviction?: StorageEvictionStrategy;
+}
+
+/**
+ * Recursively optional version of a value, as accepted by patch.
+ * Arrays, Dates, Maps and Sets are replaced as a whole.
+ */
+export type DeepPartial<T> = T extends
+  | readonly unknown[]
+  | Date
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | ((...args: never[]) => unknown)
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/**
+ * Options type for SafeStorage subscribe method
+ */
+export interface SafeStorageSubscribeOptions extends SafeStorageGetOptions {
+  /**
+   * Called instead of the listener when reading the new value fails with `onFailure: "throw"`,
+   * and with errors thrown by the listener.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Health of a stored entry found by audit
+ *
+ * - "valid": The value decodes and matches the schema
+ * - "missing": Nothing is stored under the key
+ * - "expired": The value outlived its ttl
+ * - "unparsable": The stored string could not be decoded (corrupt JSON, failed migration, ...)
+ * - "invalid": The decoded value does not match the schema
+ * - "unavailable": The storage could not be accessed
+ * - "skipped": The entry is async or encrypted and cannot be checked synchronously
+ */
+export type StorageAuditStatus =
+  | 'valid'
+  | 'missing'
+  | 'expired'
+  | 'unparsable'
+  | 'invalid'
+  | 'unavailable'
+  | 'skipped';
+
+/**
+ * Audit result of one entry
+ *
+ * @property {string} key - Key of the entry
+ * @property {StorageType | StorageAdapter | AsyncStorageAdapter} storage - Storage of the entry
+ * @property {StorageAuditStatus} status - Health of the stored value
+ * @property {number} bytes - Size of the key and stored string in bytes (UTF-16), `0` when missing
+ * @property {string} [issues] - Formatted validation issues ("invalid" only)
+ * @property {Error} [error] - Why the value could not be decoded or read ("unparsable" and "unavailable" only)
+ * @property {boolean} [fixed] - Whether the `fix` option cleared or reinitialized the entry
+ */
+export interface StorageAuditEntry {
+  key: string;
+  storage: StorageType | StorageAdapter | AsyncStorageAdapter;
+  status: StorageAuditStatus;
+  bytes: number;
+  issues?: string;
+  error?: Error;
+  fixed?: boolean;
+}
+
+/**
+ * A key present in storage that no audited entry claims
+ *
+ * @property {string} key - The key, without the namespace prefix
+ * @property {StorageType | StorageAdapter} storage - Storage the key was found in
+ * @property {number} bytes - Size of the key and stored string in bytes (UTF-16)
+ */
+export interface StorageAuditOrphan {
+  key: string;
+  storage: StorageType | StorageAdapter;
+  bytes: number;
+}
+
+/**
+ * Result type of SafeStorage audit method
+ */
+export interface StorageAuditReport {
+  entries: StorageAuditEntry[];
+  orphans: StorageAuditOrphan[];
+}
+
+/**
+ * Options type for SafeStorage audit method
+ */
+export interface StorageAuditOptions {
+  /**
+   * Repairs "unparsable" and "invalid" entries.
+   *
+   * - "clear": Removes the stored value
+   * - "init": Overwrites it with `defaultValue`, except values written by a newer schema version
    */
-  onFailure?: 'default' | 'null' | 'throw';
+  fix?: 'clear' | 'init';
 }
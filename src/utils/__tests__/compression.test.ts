@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../../core/zs';
+import { zodStorage } from '../../core/zodStorage';
+import { taggedJsonSerializer } from '../../serializers/taggedJsonSerializer';
+import { compress, decompress } from '../compression';
+
+describe('compression', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('compress / decompress', () => {
+    it.each([
+      ['empty string', ''],
+      ['single character', 'a'],
+      ['repeated characters', 'a'.repeat(1000)],
+      ['JSON', JSON.stringify({ id: 1, tags: ['a', 'b'], nested: { value: null } })],
+      ['unicode and emoji', '한글 テスト 😀 ünïcödé'],
+    ])('should round-trip %s', (_, input) => {
+      expect(decompress(compress(input))).toBe(input);
+    });
+
+    it('should produce only printable, non-surrogate UTF-16 characters', () => {
+      const compressed = compress('😀'.repeat(100) + JSON.stringify([1, 2, 3]).repeat(100));
+
+      for (const char of compressed.split('')) {
+        const code = char.charCodeAt(0);
+        expect(code).toBeGreaterThanOrEqual(32);
+        expect(code < 0xd800 || code > 0xdfff).toBe(true);
+      }
+    });
+
+    it('should shrink repetitive JSON', () => {
+      const json = JSON.stringify(
+        Array.from({ length: 500 }, (_, id) => ({ id, query: `search ${id % 10}` }))
+      );
+
+      expect(compress(json).length).toBeLessThan(json.length / 4);
+    });
+
+    it('should return null for corrupted input', () => {
+      expect(decompress('')).toBeNull();
+      expect(decompress(compress('hello world').slice(0, 2))).toBeNull();
+    });
+  });
+
+  describe('with zodStorage', () => {
+    const searches = zs({
+      key: 'searches',
+      schema: z.array(z.string()),
+      defaultValue: [],
+      compress: true,
+    });
+    const recent = Array.from({ length: 200 }, (_, i) => `recent search ${i % 20}`);
+
+    it('should store compressed values and read them back', () => {
+      zodStorage.set(searches, recent);
+
+      const raw = localStorage.getItem('searches')!;
+      expect(raw.startsWith('lz:')).toBe(true);
+      expect(raw.length).toBeLessThan(JSON.stringify(recent).length);
+      expect(zodStorage.get(searches)).toEqual(recent);
+    });
+
+    it('should read legacy uncompressed values', () => {
+      localStorage.setItem('searches', JSON.stringify(['legacy']));
+
+      expect(zodStorage.get(searches)).toEqual(['legacy']);
+    });
+
+    it('should read compressed values on entries without compression', () => {
+      zodStorage.set(searches, recent);
+      const plain = zs({ key: 'searches', schema: z.array(z.string()), defaultValue: [] });
+
+      expect(zodStorage.get(plain)).toEqual(recent);
+    });
+
+    it('should treat corrupted compressed values as failures', () => {
+      localStorage.setItem('searches', 'lz:');
+
+      expect(zodStorage.get(searches)).toBeNull();
+      expect(zodStorage.get(searches, { onFailure: 'default' })).toEqual([]);
+      expect(() => zodStorage.get(searches, { onFailure: 'throw' })).toThrow(/corrupted/);
+    });
+
+    it('should combine with envelopes and serializers', () => {
+      const dates = zs({
+        key: 'dates',
+        schema: z.array(z.date()),
+        defaultValue: [],
+        compress: true,
+        serializer: taggedJsonSerializer,
+        version: 1,
+        ttl: 60_000,
+      });
+      const value = [new Date(0), new Date('2024-01-01T00:00:00.000Z')];
+
+      zodStorage.set(dates, value);
+      expect(zodStorage.get(dates)).toEqual(value);
+    });
+
+    it.each(['lz:', 'enc:', 'raw:'])(
+      'should escape serializer output starting with %s',
+      (marker) => {
+        const prefixed = zs({
+          key: 'prefixed',
+          schema: z.string(),
+          defaultValue: '',
+          serializer: {
+            stringify: (value) => marker + String(value),
+            parse: (raw) => raw.slice(marker.length),
+          },
+        });
+
+        zodStorage.set(prefixed, 'value');
+
+        expect(localStorage.getItem('prefixed')).toBe(`raw:${marker}value`);
+        expect(zodStorage.get(prefixed)).toBe('value');
+      }
+    );
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { deepMerge } from '../deepMerge';
+
+describe('deepMerge', () => {
+  it('should merge nested plain objects', () => {
+    expect(deepMerge({ a: 1, b: { c: 2, d: 3 } }, { b: { d: 4 } })).toEqual({
+      a: 1,
+      b: { c: 2, d: 4 },
+    });
+  });
+
+  it('should replace arrays, dates and maps', () => {
+    const date = new Date(0);
+    const map = new Map([['a', 1]]);
+
+    expect(
+      deepMerge(
+        { list: [1, 2], at: new Date(1), lookup: new Map<string, number>() },
+        { list: [3], at: date, lookup: map }
+      )
+    ).toEqual({ list: [3], at: date, lookup: map });
+  });
+
+  it('should ignore undefined values', () => {
+    expect(deepMerge({ a: 1, b: 2 }, { a: undefined, b: 3 })).toEqual({ a: 1, b: 3 });
+  });
+
+  it('should not mutate its inputs', () => {
+    const base = { nested: { a: 1 } };
+    const merged = deepMerge(base, { nested: { a: 2 } });
+
+    expect(base.nested.a).toBe(1);
+    expect(merged.nested).not.toBe(base.nested);
+  });
+
+  it('should replace primitive values', () => {
+    expect(deepMerge(1, 2)).toBe(2);
+    expect(deepMerge<string | null>('a', null)).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, beforeAll } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../../core/zs';
+import { zodStorage } from '../../core/zodStorage';
+
+const generateKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+describe('encryption', () => {
+  let key: CryptoKey;
+
+  beforeAll(async () => {
+    key = await generateKey();
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const tokenSchema = z.object({ accessToken: z.string(), email: z.string().email() });
+  const token = { accessToken: 'secret-token', email: 'john@example.com' };
+
+  const createEntry = (encryptionKey: () => CryptoKey | Promise<CryptoKey>) =>
+    zs({
+      key: 'token',
+      schema: tokenSchema,
+      defaultValue: { accessToken: '', email: 'anonymous@example.com' },
+      encryption: { key: encryptionKey },
+    });
+
+  it('should encrypt on write and decrypt on read', async () => {
+    const entry = createEntry(() => key);
+
+    expect(await zodStorage.async.set(entry, token)).toBe(true);
+
+    const raw = localStorage.getItem('token')!;
+    expect(raw.startsWith('enc:')).toBe(true);
+    expect(raw).not.toContain('secret-token');
+    expect(await zodStorage.async.get(entry)).toEqual(token);
+  });
+
+  it('should accept a CryptoKey directly', async () => {
+    const entry = zs({
+      key: 'direct',
+      schema: z.string(),
+      defaultValue: '',
+      encryption: { key },
+    });
+
+    await zodStorage.async.set(entry, 'value');
+    expect(await zodStorage.async.get(entry)).toBe('value');
+  });
+
+  it('should use a random IV for every write', async () => {
+    const entry = createEntry(() => key);
+
+    await zodStorage.async.set(entry, token);
+    const first = localStorage.getItem('token');
+    await zodStorage.async.set(entry, token);
+
+    expect(localStorage.getItem('token')).not.toBe(first);
+  });
+
+  it('should validate decrypted values', async () => {
+    const entry = createEntry(() => key);
+    const loose = zs({
+      key: 'token',
+      schema: z.object({ accessToken: z.string(), email: z.string() }),
+      defaultValue: { accessToken: '', email: '' },
+      encryption: { key },
+    });
+
+    await zodStorage.async.set(loose, { accessToken: 'x', email: 'not-an-email' });
+
+    expect(await zodStorage.async.get(entry)).toBeNull();
+    expect(await zodStorage.async.get(entry, { onFailure: 'default' })).toEqual({
+      accessToken: '',
+      email: 'anonymous@example.com',
+    });
+  });
+
+  it('should route decryption failures through onFailure', async () => {
+    const otherKey = await generateKey();
+    await zodStorage.async.set(
+      createEntry(() => key),
+      token
+    );
+    const entry = createEntry(() => otherKey);
+
+    expect(await zodStorage.async.get(entry)).toBeNull();
+    expect(await zodStorage.async.get(entry, { onFailure: 'default' })).toEqual({
+      accessToken: '',
+      email: 'anonymous@example.com',
+    });
+    await expect(zodStorage.async.get(entry, { onFailure: 'throw' })).rejects.toThrow(
+      /could not be decrypted/
+    );
+  });
+
+  it('should route corrupted ciphertext through onFailure', async () => {
+    const entry = createEntry(() => key);
+    localStorage.setItem('token', 'enc:AAAA');
+
+    expect(await zodStorage.async.get(entry)).toBeNull();
+  });
+
+  it('should read legacy plaintext values', async () => {
+    const entry = createEntry(() => key);
+    localStorage.setItem('token', JSON.stringify(token));
+
+    expect(await zodStorage.async.get(entry)).toEqual(token);
+  });
+
+  it('should combine with compression and envelopes', async () => {
+    const entry = zs({
+      key: 'history',
+      schema: z.array(z.string()),
+      defaultValue: [],
+      encryption: { key },
+      compress: true,
+      version: 2,
+      ttl: 60_000,
+    });
+    const history = Array.from({ length: 50 }, (_, i) => `page ${i % 5}`);
+
+    await zodStorage.async.set(entry, history);
+    expect(await zodStorage.async.get(entry)).toEqual(history);
+  });
+
+  it('should reject sync writes of encrypted entries', () => {
+    const entry = createEntry(() => key);
+
+    expect(() => zodStorage.set(entry, token)).toThrow(/async\.set/);
+  });
+
+  it('should reject sync reads of encrypted entries', async () => {
+    const entry = createEntry(() => key);
+    await zodStorage.async.set(entry, token);
+
+    expect(() => zodStorage.get(entry)).toThrow(/async\.get/);
+    expect(() => zodStorage.get(entry, { onFailure: 'default' })).toThrow(/async\.get/);
+    expect(() => zodStorage.safeGet(entry)).toThrow(/async\.safeGet/);
+  });
+
+  it('should reject sync ensure, update and patch of encrypted entries', async () => {
+    const entry = createEntry(() => key);
+    await zodStorage.async.set(entry, token);
+    const stored = localStorage.getItem('token');
+
+    expect(() => zodStorage.ensure(entry)).toThrow(/async\.ensure/);
+    expect(() => zodStorage.update(entry, (current) => current)).toThrow(/async\.update/);
+    expect(() => zodStorage.patch(entry, { email: 'jane@example.com' })).toThrow(/async\.patch/);
+    expect(localStorage.getItem('token')).toBe(stored);
+  });
+
+  it('should treat encrypted values as failures on sync reads of plain entries', async () => {
+    const entry = createEntry(() => key);
+    await zodStorage.async.set(entry, token);
+    const plain = zs({ key: 'token', schema: tokenSchema, defaultValue: token });
+
+    expect(zodStorage.get(plain)).toBeNull();
+    expect(() => zodStorage.get(plain, { onFailure: 'throw' })).toThrow(/async\.get/);
+  });
+
+  it('should validate and write plain entries through the async API', async () => {
+    const plain = zs({ key: 'count', schema: z.number(), defaultValue: 0 });
+
+    expect(await zodStorage.async.set(plain, 1)).toBe(true);
+    expect(localStorage.getItem('count')).toBe('1');
+    expect(await zodStorage.async.get(plain)).toBe(1);
+  });
+});
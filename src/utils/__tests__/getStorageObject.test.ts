@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { zs } from '../../core/zs';
+import { zodStorage } from '../../core/zodStorage';
+import { StorageQuotaError, StorageUnavailableError } from '../../core/errors';
+import { getStorageObject } from '../getStorageObject';
+import { isStorageAvailable } from '../isStorageAvailable';
+
+const original = Object.getOwnPropertyDescriptor(globalThis, 'localStorage');
+
+const stubLocalStorage = (descriptor: PropertyDescriptor) => {
+  Object.defineProperty(globalThis, 'localStorage', { configurable: true, ...descriptor });
+};
+
+describe('getStorageObject', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    if (original) {
+      Object.defineProperty(globalThis, 'localStorage', original);
+    }
+  });
+
+  describe('isStorageAvailable', () => {
+    it('should report available storage', () => {
+      expect(isStorageAvailable('local')).toBe(true);
+      expect(isStorageAvailable('session')).toBe(true);
+    });
+
+    it('should report missing storage (SSR, Web Workers)', () => {
+      stubLocalStorage({ value: undefined });
+      expect(isStorageAvailable('local')).toBe(false);
+    });
+
+    it('should report storage whose access throws (blocked storage)', () => {
+      stubLocalStorage({
+        get() {
+          throw new DOMException('The operation is insecure.', 'SecurityError');
+        },
+      });
+      expect(isStorageAvailable('local')).toBe(false);
+    });
+
+    it('should report storage whose setItem throws (private mode)', () => {
+      stubLocalStorage({
+        value: {
+          length: 0,
+          getItem: () => null,
+          setItem: () => {
+            throw new DOMException('Quota exceeded', 'QuotaExceededError');
+          },
+          removeItem: () => undefined,
+        },
+      });
+      expect(isStorageAvailable('local')).toBe(false);
+    });
+
+    it('should report full storage as available and keep reading it', () => {
+      const values = new Map([['theme', '"dark"']]);
+      let full = true;
+
+      stubLocalStorage({
+        value: {
+          get length() {
+            return values.size;
+          },
+          key: (index: number) => [...values.keys()][index] ?? null,
+          getItem: (key: string) => values.get(key) ?? null,
+          setItem: (key: string, value: string) => {
+            if (full) {
+              throw new DOMException('Quota exceeded', 'QuotaExceededError');
+            }
+            values.set(key, value);
+          },
+          removeItem: (key: string) => values.delete(key),
+        },
+      });
+
+      const theme = zs({ key: 'theme', schema: z.enum(['light', 'dark']), defaultValue: 'light' });
+
+      expect(isStorageAvailable('local')).toBe(true);
+      expect(zodStorage.get(theme)).toBe('dark');
+      expect(() => zodStorage.set(theme, 'light')).toThrow(StorageQuotaError);
+
+      full = false;
+
+      expect(zodStorage.set(theme, 'light')).toBe(true);
+      expect(values.get('theme')).toBe('"light"');
+    });
+
+    it('should probe again after a failed probe', () => {
+      let blocked = true;
+
+      stubLocalStorage({
+        value: {
+          length: 0,
+          getItem: () => null,
+          setItem: () => {
+            if (blocked) {
+              throw new DOMException('Quota exceeded', 'QuotaExceededError');
+            }
+          },
+          removeItem: () => undefined,
+        },
+      });
+
+      expect(isStorageAvailable('local')).toBe(false);
+
+      blocked = false;
+
+      expect(isStorageAvailable('local')).toBe(true);
+    });
+  });
+
+  describe('fallback policies', () => {
+    const storage = zs({
+      key: 'theme',
+      schema: z.enum(['light', 'dark']),
+      defaultValue: 'light',
+    });
+
+    it('should not throw on get/set/clear when storage is missing (noop)', () => {
+      stubLocalStorage({ value: undefined });
+
+      expect(() => zodStorage.set(storage, 'dark')).not.toThrow();
+      expect(zodStorage.get(storage)).toBeNull();
+      expect(zodStorage.get(storage, { onFailure: 'default' })).toBeNull();
+      expect(() => zodStorage.clear(storage)).not.toThrow();
+      expect(getStorageObject('local').keys()).toEqual([]);
+    });
+
+    it('should keep values in memory with the memory fallback', () => {
+      stubLocalStorage({ value: undefined });
+      const memoryStorage = zs({
+        key: 'memoryTheme',
+        schema: z.enum(['light', 'dark']),
+        defaultValue: 'light',
+        fallback: 'memory',
+      });
+
+      zodStorage.set(memoryStorage, 'dark');
+      expect(zodStorage.get(memoryStorage)).toBe('dark');
+      expect(getStorageObject('local', 'memory').getItem('memoryTheme')).toBe('"dark"');
+
+      zodStorage.clear(memoryStorage);
+      expect(zodStorage.get(memoryStorage)).toBeNull();
+    });
+
+    it('should throw a StorageUnavailableError with the throw fallback', () => {
+      stubLocalStorage({ value: undefined });
+      const throwingStorage = zs({
+        key: 'throwingTheme',
+        schema: z.enum(['light', 'dark']),
+        defaultValue: 'light',
+        fallback: 'throw',
+      });
+
+      expect(() => zodStorage.get(throwingStorage)).toThrow(StorageUnavailableError);
+      expect(() => zodStorage.set(throwingStorage, 'dark')).toThrow(StorageUnavailableError);
+
+      try {
+        zodStorage.get(throwingStorage);
+      } catch (err) {
+        expect((err as StorageUnavailableError).storage).toBe('local');
+      }
+    });
+
+    it('should use the real storage when it is available', () => {
+      zodStorage.set(storage, 'dark');
+      expect(localStorage.getItem('theme')).toBe('"dark"');
+    });
+  });
+});
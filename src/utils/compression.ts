@@ -0,0 +1,261 @@
+import { ENCRYPTED_PREFIX } from './encryption';
+
+/**
+ * LZ-based string compression producing UTF-16 output that is safe to keep in Web Storage.
+ * Follows the scheme of lz-string's `compressToUTF16`: an LZW stream packed into 15 bits
+ * per character, offset by 32 so no control or surrogate characters are produced.
+ */
+
+const BITS_PER_CHAR = 15;
+const CHAR_OFFSET = 32;
+
+/**
+ * Compresses a string.
+ *
+ * @param {string} input - The string to compress
+ * @returns {string} The compressed string
+ */
+export const compress = (input: string): string => {
+  const dictionary = new Map<string, number>();
+  // Single characters seen for the first time, emitted literally on their first use
+  const pending = new Set<string>();
+  const output: string[] = [];
+
+  let dictSize = 3;
+  let numBits = 2;
+  // Compensate for the first entry which should not count
+  let enlargeIn = 2;
+  let buffer = 0;
+  let position = 0;
+
+  const writeBits = (count: number, value: number) => {
+    let remaining = value;
+
+    for (let i = 0; i < count; i++) {
+      buffer = (buffer << 1) | (remaining & 1);
+      remaining >>= 1;
+
+      if (position === BITS_PER_CHAR - 1) {
+        position = 0;
+        output.push(String.fromCharCode(buffer + CHAR_OFFSET));
+        buffer = 0;
+      } else {
+        position++;
+      }
+    }
+  };
+
+  const decrementEnlargeIn = () => {
+    enlargeIn--;
+
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+  };
+
+  const writePhrase = (phrase: string) => {
+    if (pending.has(phrase)) {
+      const code = phrase.charCodeAt(0);
+
+      if (code < 256) {
+        writeBits(numBits, 0);
+        writeBits(8, code);
+      } else {
+        writeBits(numBits, 1);
+        writeBits(16, code);
+      }
+
+      decrementEnlargeIn();
+      pending.delete(phrase);
+    } else {
+      writeBits(numBits, dictionary.get(phrase) as number);
+    }
+
+    decrementEnlargeIn();
+  };
+
+  let phrase = '';
+
+  for (const char of input.split('')) {
+    if (!dictionary.has(char)) {
+      dictionary.set(char, dictSize++);
+      pending.add(char);
+    }
+
+    const extended = phrase + char;
+
+    if (dictionary.has(extended)) {
+      phrase = extended;
+    } else {
+      writePhrase(phrase);
+      dictionary.set(extended, dictSize++);
+      phrase = char;
+    }
+  }
+
+  if (phrase !== '') {
+    writePhrase(phrase);
+  }
+
+  // End of stream marker
+  writeBits(numBits, 2);
+
+  // Flush the last character
+  while (position !== 0) {
+    writeBits(1, 0);
+  }
+
+  return output.join('') + ' ';
+};
+
+/**
+ * Decompresses a string produced by `compress`.
+ *
+ * @param {string} input - The compressed string
+ * @returns {string | null} The original string, or `null` if the input is corrupted
+ */
+export const decompress = (input: string): string | null => {
+  if (input === '') {
+    return null;
+  }
+
+  const resetValue = 2 ** (BITS_PER_CHAR - 1);
+  const charAt = (index: number) => input.charCodeAt(index) - CHAR_OFFSET;
+
+  // Placeholders for the three reserved codes
+  const dictionary: string[] = ['', '', ''];
+  const result: string[] = [];
+
+  let enlargeIn = 4;
+  let dictSize = 4;
+  let numBits = 3;
+  let value = charAt(0);
+  let position = resetValue;
+  let index = 1;
+
+  const readBits = (count: number) => {
+    let bits = 0;
+
+    for (let power = 1; power !== 2 ** count; power <<= 1) {
+      const bit = value & position;
+      position >>= 1;
+
+      if (position === 0) {
+        position = resetValue;
+        value = charAt(index++);
+      }
+
+      bits |= (bit > 0 ? 1 : 0) * power;
+    }
+
+    return bits;
+  };
+
+  const readChar = (marker: number) => String.fromCharCode(readBits(marker === 0 ? 8 : 16));
+
+  const first = readBits(2);
+
+  if (first === 2) {
+    return '';
+  }
+
+  if (first !== 0 && first !== 1) {
+    return null;
+  }
+
+  let phrase = readChar(first);
+  dictionary[3] = phrase;
+  result.push(phrase);
+
+  for (;;) {
+    if (index > input.length) {
+      return null;
+    }
+
+    let code = readBits(numBits);
+
+    if (code === 2) {
+      return result.join('');
+    }
+
+    if (code === 0 || code === 1) {
+      dictionary[dictSize++] = readChar(code);
+      code = dictSize - 1;
+      enlargeIn--;
+    }
+
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+
+    let entry: string;
+
+    if (code > 2 && code < dictionary.length) {
+      entry = dictionary[code];
+    } else if (code === dictSize) {
+      entry = phrase + phrase.charAt(0);
+    } else {
+      return null;
+    }
+
+    result.push(entry);
+    dictionary[dictSize++] = phrase + entry.charAt(0);
+    enlargeIn--;
+    phrase = entry;
+
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+  }
+};
+
+// Marks compressed values
+const COMPRESSED_PREFIX = 'lz:';
+
+// Marks uncompressed values that would otherwise start with a marker
+const ESCAPED_PREFIX = 'raw:';
+
+const MARKERS = [COMPRESSED_PREFIX, ESCAPED_PREFIX, ENCRYPTED_PREFIX];
+
+/**
+ * Returns an uncompressed serialized value as stored.
+ * Values starting with a marker (possible with custom serializers) are escaped,
+ * so they are never mistaken for compressed or encrypted values.
+ */
+export const escapeStored = (serialized: string): string =>
+  MARKERS.some((marker) => serialized.startsWith(marker))
+    ? ESCAPED_PREFIX + serialized
+    : serialized;
+
+/**
+ * Compresses a serialized value and marks it as compressed for storage.
+ */
+export const compressStored = (serialized: string): string =>
+  COMPRESSED_PREFIX + compress(serialized);
+
+/**
+ * Returns the serialized value of a stored string, decompressing or unescaping it.
+ * Values stored without compression are returned as-is.
+ *
+ * @throws {Error} If a compressed value is corrupted
+ */
+export const decompressStored = (raw: string): string => {
+  if (raw.startsWith(ESCAPED_PREFIX)) {
+    return raw.slice(ESCAPED_PREFIX.length);
+  }
+
+  if (!raw.startsWith(COMPRESSED_PREFIX)) {
+    return raw;
+  }
+
+  const decompressed = decompress(raw.slice(COMPRESSED_PREFIX.length));
+
+  if (decompressed === null) {
+    throw new Error('Compressed value is corrupted');
+  }
+
+  return decompressed;
+};
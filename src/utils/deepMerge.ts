@@ -0,0 +1,32 @@
+import { DeepPartial } from '@/types/type';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const proto = Object.getPrototypeOf(value) as unknown;
+  return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Deep-merges a partial value into a base value without mutating either.
+ * - Plain objects are merged key by key
+ * - Arrays, Dates, Maps, class instances and primitives are replaced
+ * - `undefined` values in the partial are ignored
+ */
+export const deepMerge = <T>(base: T, partial: DeepPartial<T>): T => {
+  if (!isPlainObject(base) || !isPlainObject(partial)) {
+    return (partial === undefined ? base : partial) as T;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+
+  Object.entries(partial).forEach(([key, value]) => {
+    if (value !== undefined) {
+      merged[key] = deepMerge(merged[key], value as DeepPartial<unknown>);
+    }
+  });
+
+  return merged as T;
+};
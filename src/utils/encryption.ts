@@ -0,0 +1,76 @@
+import { StorageEncryption } from '@/types/type';
+
+// Marks encrypted values; other stored strings are escaped by `escapeStored` if they start with it
+export const ENCRYPTED_PREFIX = 'enc:';
+const IV_LENGTH = 12;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+const resolveKey = async (encryption: StorageEncryption | undefined): Promise<CryptoKey> => {
+  if (!encryption) {
+    throw new Error('Value is encrypted but the entry has no encryption key');
+  }
+
+  return typeof encryption.key === 'function' ? encryption.key() : encryption.key;
+};
+
+/**
+ * Checks whether a stored string was written by `encrypt`.
+ */
+export const isEncrypted = (raw: string): boolean => raw.startsWith(ENCRYPTED_PREFIX);
+
+/**
+ * Encrypts a string with AES-GCM and a random IV.
+ * The result is `enc:` followed by the base64 of the IV and the ciphertext.
+ */
+export const encrypt = async (plain: string, encryption: StorageEncryption): Promise<string> => {
+  const key = await resolveKey(encryption);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plain)
+  );
+
+  const payload = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  payload.set(iv);
+  payload.set(new Uint8Array(ciphertext), IV_LENGTH);
+
+  return ENCRYPTED_PREFIX + toBase64(payload);
+};
+
+/**
+ * Decrypts a string produced by `encrypt`.
+ *
+ * @throws {Error} If the entry has no key, or the value is corrupted or was encrypted with another key
+ */
+export const decrypt = async (
+  raw: string,
+  encryption: StorageEncryption | undefined
+): Promise<string> => {
+  const key = await resolveKey(encryption);
+  const payload = fromBase64(raw.slice(ENCRYPTED_PREFIX.length));
+
+  try {
+    const plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: payload.subarray(0, IV_LENGTH) },
+      key,
+      payload.subarray(IV_LENGTH)
+    );
+
+    return new TextDecoder().decode(plain);
+  } catch {
+    // WebCrypto rejects with a bare OperationError
+    throw new Error('Value could not be decrypted');
+  }
+};
@@ -0,0 +1,68 @@
+/**
+ * Metadata persisted alongside a stored value
+ */
+export type EnvelopeMeta = {
+  /**
+   * Schema version the value was written with
+   */
+  version?: number;
+  /**
+   * Epoch time in milliseconds after which the value is treated as missing
+   */
+  expiresAt?: number;
+  /**
+   * Marks the value as removable to make room for other writes
+   */
+  evictable?: boolean;
+  /**
+   * Eviction priority of the value
+   */
+  priority?: number;
+  /**
+   * Epoch time in milliseconds of the last write
+   */
+  accessedAt?: number;
+};
+
+const ENVELOPE_KEY = '__zs';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Whether a parsed stored value has the shape of an envelope.
+ */
+const isEnvelope = (stored: unknown): stored is { [ENVELOPE_KEY]: EnvelopeMeta; value: unknown } =>
+  isPlainObject(stored) &&
+  isPlainObject(stored[ENVELOPE_KEY]) &&
+  'value' in stored &&
+  Object.keys(stored).length === 2;
+
+/**
+ * Wraps a value with its metadata so it can be stored without touching the user's schema.
+ * Values without metadata are returned as-is, keeping the plain JSON format,
+ * unless they have the shape of an envelope and would be read back as one.
+ */
+export const wrapEnvelope = (value: unknown, meta: EnvelopeMeta): unknown => {
+  const definedMeta = Object.fromEntries(
+    Object.entries(meta).filter(([, metaValue]) => metaValue !== undefined)
+  );
+
+  if (Object.keys(definedMeta).length === 0 && !isEnvelope(value)) {
+    return value;
+  }
+
+  return { [ENVELOPE_KEY]: definedMeta, value };
+};
+
+/**
+ * Splits a parsed stored value into the user's value and its metadata.
+ * Values written without an envelope are returned with empty metadata.
+ */
+export const unwrapEnvelope = (stored: unknown): { value: unknown; meta: EnvelopeMeta } => {
+  if (isEnvelope(stored)) {
+    return { value: stored.value, meta: stored[ENVELOPE_KEY] };
+  }
+
+  return { value: stored, meta: {} };
+};
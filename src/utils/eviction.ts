@@ -0,0 +1,70 @@
+import { StorageEvictionStrategy, StorageSerializer } from '@/types/type';
+import { decompressStored } from './compression';
+import { isEncrypted } from './encryption';
+import { unwrapEnvelope } from './envelope';
+
+/**
+ * Stored entry that can be removed to make room for a write
+ */
+export type EvictionCandidate = {
+  key: string;
+  priority: number;
+  accessedAt: number;
+  expiresAt?: number;
+};
+
+/**
+ * Reads the eviction metadata of a stored string.
+ * Returns `null` for values that are not evictable or cannot be read (encrypted, foreign, ...).
+ */
+export const toEvictionCandidate = (
+  key: string,
+  raw: string | null,
+  serializer: StorageSerializer
+): EvictionCandidate | null => {
+  if (raw === null || isEncrypted(raw)) {
+    return null;
+  }
+
+  try {
+    const { meta } = unwrapEnvelope(serializer.parse(decompressStored(raw)));
+
+    if (meta.evictable !== true) {
+      return null;
+    }
+
+    return {
+      key,
+      priority: meta.priority ?? 0,
+      accessedAt: meta.accessedAt ?? 0,
+      expiresAt: meta.expiresAt,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Sorts candidates in the order they should be evicted.
+ */
+export const sortEvictionCandidates = (
+  candidates: EvictionCandidate[],
+  strategy: StorageEvictionStrategy,
+  now = Date.now()
+): EvictionCandidate[] => {
+  const isExpired = ({ expiresAt }: EvictionCandidate) =>
+    expiresAt !== undefined && expiresAt <= now;
+
+  const byAccess = (a: EvictionCandidate, b: EvictionCandidate) => a.accessedAt - b.accessedAt;
+  const byPriority = (a: EvictionCandidate, b: EvictionCandidate) =>
+    a.priority - b.priority || byAccess(a, b);
+
+  const compare = {
+    priority: byPriority,
+    lru: byAccess,
+    'expired-first': (a: EvictionCandidate, b: EvictionCandidate) =>
+      Number(isExpired(b)) - Number(isExpired(a)) || byPriority(a, b),
+  }[strategy];
+
+  return [...candidates].sort(compare);
+};
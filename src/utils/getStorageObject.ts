@@ -1,8 +1,56 @@
-import { StorageType } from '@/types/type';
+import { AsyncStorageAdapter, StorageAdapter, StorageFallback, StorageType } from '@/types/type';
+import { createMemoryStorage } from '../adapters/memoryStorage';
+import { createWebStorage } from '../adapters/webStorage';
+import { StorageUnavailableError } from '../core/errors';
+import { getWebStorage, isStorageAvailable } from './isStorageAvailable';
+
+const noopStorage: StorageAdapter = {
+  getItem: () => null,
+  setItem: () => undefined,
+  removeItem: () => undefined,
+  keys: () => [],
+};
+
+// In-memory shims shared by every entry falling back on the same storage type
+const memoryShims: Partial<Record<StorageType, StorageAdapter>> = {};
+
+/**
+ * Checks whether a storage is an AsyncStorageAdapter.
+ */
+export const isAsyncStorage = (
+  storage: StorageType | StorageAdapter | AsyncStorageAdapter
+): storage is AsyncStorageAdapter =>
+  typeof storage === 'object' && 'async' in storage && storage.async === true;
 
 /**
- * Returns the storage object.
+ * Returns the storage adapter for the given storage type.
+ * Custom adapters are returned as-is.
+ * If the Web Storage is not available, the fallback policy decides what is returned:
+ * - "noop": an adapter that reads nothing and discards writes (default)
+ * - "memory": an in-memory shim shared per storage type
+ * - "throw": throws a StorageUnavailableError
  */
-export const getStorageObject = (type: StorageType = 'local'): Storage => {
-  return type === 'session' ? sessionStorage : localStorage;
+export const getStorageObject = (
+  storage: StorageType | StorageAdapter = 'local',
+  fallback: StorageFallback = 'noop'
+): StorageAdapter => {
+  if (typeof storage === 'object') {
+    return storage;
+  }
+
+  const webStorage = getWebStorage(storage);
+
+  if (webStorage && isStorageAvailable(storage)) {
+    return createWebStorage(webStorage);
+  }
+
+  if (fallback === 'throw') {
+    throw new StorageUnavailableError(storage);
+  }
+
+  if (fallback === 'memory') {
+    return (memoryShims[storage] ??= createMemoryStorage());
+  }
+
+  return noopStorage;
 };
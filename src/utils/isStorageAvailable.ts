@@ -0,0 +1,61 @@
+import { StorageType } from '@/types/type';
+import { isQuotaExceededError } from '../core/errors';
+
+const PROBE_KEY = '__zod_storage_probe__';
+
+// Storage objects that passed the probe, so a write probe happens once per usable storage
+const probed = new WeakSet<Storage>();
+
+/**
+ * Returns the global Web Storage object for the given type, or `undefined`
+ * if it does not exist or cannot be accessed.
+ */
+export const getWebStorage = (type: StorageType): Storage | undefined => {
+  try {
+    const storage = (globalThis as { localStorage?: Storage; sessionStorage?: Storage })[
+      type === 'session' ? 'sessionStorage' : 'localStorage'
+    ];
+
+    return storage ?? undefined;
+  } catch {
+    // e.g. SecurityError when storage is blocked by the browser
+    return undefined;
+  }
+};
+
+/**
+ * Checks whether the given Web Storage can be used.
+ * - Returns false when the global is missing (SSR, Web Workers) or access throws (SecurityError)
+ * - Probes with setItem/removeItem to catch private modes with a zero quota
+ * - A full storage (quota error while it holds keys) is available: it can still be read and freed
+ *
+ * Failed probes are not cached, so a storage becoming usable later is detected.
+ *
+ * @param {StorageType} [type] - The storage type to check, defaults to "local"
+ * @returns {boolean} Whether the storage is available
+ */
+export const isStorageAvailable = (type: StorageType = 'local'): boolean => {
+  const storage = getWebStorage(type);
+
+  if (!storage) {
+    return false;
+  }
+
+  if (probed.has(storage)) {
+    return true;
+  }
+
+  try {
+    storage.setItem(PROBE_KEY, PROBE_KEY);
+    storage.removeItem(PROBE_KEY);
+  } catch (err) {
+    // Zero-quota private modes also throw quota errors, but hold no keys
+    if (!isQuotaExceededError(err) || storage.length === 0) {
+      return false;
+    }
+  }
+
+  probed.add(storage);
+
+  return true;
+};
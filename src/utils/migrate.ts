@@ -0,0 +1,52 @@
+import { StorageMigrations } from '@/types/type';
+
+/**
+ * Thrown when a value was written by a newer schema version, e.g. after an app rollback.
+ */
+export class NewerVersionError extends Error {
+  /**
+   * Version the value was written with
+   */
+  readonly storedVersion: number;
+
+  /**
+   * Version of the schema reading it
+   */
+  readonly schemaVersion: number;
+
+  constructor(storedVersion: number, schemaVersion: number) {
+    super(`Stored version ${storedVersion} is newer than schema version ${schemaVersion}`);
+    this.name = 'NewerVersionError';
+    this.storedVersion = storedVersion;
+    this.schemaVersion = schemaVersion;
+  }
+}
+
+/**
+ * Upgrades a stored value from one schema version to another by running each
+ * migration step in order. Missing steps leave the value unchanged.
+ *
+ * @throws {NewerVersionError} If the stored version is newer than the current version
+ */
+export const migrate = (
+  value: unknown,
+  from: number,
+  to: number,
+  migrations: StorageMigrations = {}
+): unknown => {
+  if (from > to) {
+    throw new NewerVersionError(from, to);
+  }
+
+  let migrated = value;
+
+  for (let version = from; version < to; version++) {
+    const step = migrations[version];
+
+    if (step) {
+      migrated = step(migrated);
+    }
+  }
+
+  return migrated;
+};
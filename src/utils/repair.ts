@@ -0,0 +1,91 @@
+import { ZodIssue } from 'zod';
+import { SafeStorageRepairChange } from '@/types/type';
+
+type Path = (string | number)[];
+
+const isRecord = (value: unknown): value is Record<string | number, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const getAt = (value: unknown, path: Path): unknown =>
+  path.reduce<unknown>(
+    (current, segment) => (isRecord(current) ? current[segment] : undefined),
+    value
+  );
+
+/**
+ * Salvages the valid parts of a value from the issues of a failed validation.
+ * - Invalid array elements are dropped
+ * - Unknown keys reported by strict objects are stripped
+ * - Other invalid fields fall back to the same field of `defaultValue`
+ *
+ * The value is not mutated. The result still has to be validated, since a
+ * repair can surface new issues (e.g. an array becoming too short).
+ */
+export const repairValue = (
+  value: unknown,
+  issues: ZodIssue[],
+  defaultValue: unknown
+): { value: unknown; changes: SafeStorageRepairChange[] } => {
+  const repaired = structuredClone(value);
+  const changes: SafeStorageRepairChange[] = [];
+  const drops = new Map<unknown[], Set<number>>();
+
+  for (const { path, ...issue } of issues) {
+    const target = getAt(repaired, path);
+
+    if (issue.code === 'unrecognized_keys' && isRecord(target)) {
+      issue.keys.forEach((key) => {
+        delete target[key];
+        changes.push({ path: [...path, key], action: 'strip' });
+      });
+      continue;
+    }
+
+    if (path.length === 0) {
+      return { value: structuredClone(defaultValue), changes: [{ path: [], action: 'default' }] };
+    }
+
+    // Drop the innermost array element containing the issue
+    let index = path.length - 1;
+
+    while (
+      index >= 0 &&
+      !(typeof path[index] === 'number' && Array.isArray(getAt(repaired, path.slice(0, index))))
+    ) {
+      index--;
+    }
+
+    if (index !== -1) {
+      const array = getAt(repaired, path.slice(0, index)) as unknown[];
+      const dropped = drops.get(array) ?? new Set<number>();
+
+      if (!dropped.has(path[index] as number)) {
+        dropped.add(path[index] as number);
+        changes.push({ path: path.slice(0, index + 1), action: 'drop' });
+      }
+
+      drops.set(array, dropped);
+      continue;
+    }
+
+    const parent = getAt(repaired, path.slice(0, -1));
+    const key = path[path.length - 1];
+    const fallback = getAt(defaultValue, path);
+
+    if (isRecord(parent)) {
+      if (fallback === undefined) {
+        delete parent[key];
+      } else {
+        parent[key] = structuredClone(fallback);
+      }
+
+      changes.push({ path, action: 'default' });
+    }
+  }
+
+  drops.forEach((indexes, array) => {
+    [...indexes].sort((a, b) => b - a).forEach((index) => array.splice(index, 1));
+  });
+
+  return { value: repaired, changes };
+};
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { effectScope } from 'vue';
+import { z } from 'zod';
+import { zs } from '../../core/zs';
+import { createZodStorage, zodStorage } from '../../core/zodStorage';
+import { StorageQuotaError } from '../../core/errors';
+import { createMemoryStorage } from '../../adapters/memoryStorage';
+import { StorageAdapter } from '@/types/type';
+import { useZodStorageRef, UseZodStorageRefOptions } from '../useZodStorageRef';
+
+describe('useZodStorageRef', () => {
+  const scopes: ReturnType<typeof effectScope>[] = [];
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    scopes.splice(0).forEach((scope) => scope.stop());
+    vi.useRealTimers();
+  });
+
+  const settings = zs({
+    key: 'settings',
+    schema: z.object({ theme: z.enum(['light', 'dark']), tags: z.array(z.string()) }),
+    defaultValue: { theme: 'light', tags: [] },
+  });
+
+  const setup = (options?: UseZodStorageRefOptions) => {
+    const scope = effectScope();
+    scopes.push(scope);
+    return { scope, state: scope.run(() => useZodStorageRef(settings, options))! };
+  };
+
+  it('should read defaultValue when nothing is stored', () => {
+    const { state } = setup();
+
+    expect(state.value).toEqual({ theme: 'light', tags: [] });
+  });
+
+  it('should read the stored value', () => {
+    zodStorage.set(settings, { theme: 'dark', tags: ['a'] });
+    const { state } = setup();
+
+    expect(state.value).toEqual({ theme: 'dark', tags: ['a'] });
+  });
+
+  it('should persist assignments', () => {
+    const { state } = setup();
+
+    state.value = { theme: 'dark', tags: [] };
+    expect(zodStorage.get(settings)).toEqual({ theme: 'dark', tags: [] });
+  });
+
+  it('should persist deep mutations', () => {
+    const { state } = setup();
+
+    state.value.tags.push('vue');
+    expect(zodStorage.get(settings)).toEqual({ theme: 'light', tags: ['vue'] });
+  });
+
+  it('should reject invalid writes and revert the ref', () => {
+    zodStorage.set(settings, { theme: 'dark', tags: [] });
+    const { state } = setup();
+
+    state.value.theme = 'purple' as 'dark';
+
+    expect(state.value).toEqual({ theme: 'dark', tags: [] });
+    expect(zodStorage.get(settings)).toEqual({ theme: 'dark', tags: [] });
+  });
+
+  it('should debounce writes', () => {
+    vi.useFakeTimers();
+    const { state } = setup({ debounce: 100 });
+
+    state.value.tags.push('a');
+    state.value.tags.push('b');
+    expect(localStorage.getItem('settings')).toBeNull();
+
+    vi.advanceTimersByTime(100);
+    expect(zodStorage.get(settings)).toEqual({ theme: 'light', tags: ['a', 'b'] });
+  });
+
+  it('should flush pending writes when the scope is disposed', () => {
+    vi.useFakeTimers();
+    const { scope, state } = setup({ debounce: 100 });
+
+    state.value.theme = 'dark';
+    scope.stop();
+
+    expect(zodStorage.get(settings)).toEqual({ theme: 'dark', tags: [] });
+  });
+
+  it('should update on writes from other code in this tab', () => {
+    const { state } = setup();
+
+    zodStorage.set(settings, { theme: 'dark', tags: ['x'] });
+    expect(state.value).toEqual({ theme: 'dark', tags: ['x'] });
+  });
+
+  it('should update on storage events from other tabs', () => {
+    const { state } = setup();
+    const newValue = JSON.stringify({ theme: 'dark', tags: ['tab'] });
+
+    localStorage.setItem('settings', newValue);
+    window.dispatchEvent(
+      new StorageEvent('storage', { key: 'settings', newValue, storageArea: localStorage })
+    );
+
+    expect(state.value).toEqual({ theme: 'dark', tags: ['tab'] });
+  });
+
+  it('should stop syncing after the scope is disposed', () => {
+    const { scope, state } = setup();
+
+    scope.stop();
+    zodStorage.set(settings, { theme: 'dark', tags: [] });
+    state.value.tags.push('ignored');
+
+    expect(state.value.theme).toBe('light');
+    expect(zodStorage.get(settings)).toEqual({ theme: 'dark', tags: [] });
+  });
+
+  it('should revert failing writes and keep syncing afterwards', () => {
+    const memory = createMemoryStorage();
+    let full = true;
+    const limited: StorageAdapter = {
+      ...memory,
+      setItem: (key, value) => {
+        if (full) {
+          throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+        }
+        memory.setItem(key, value);
+      },
+    };
+    const app = createZodStorage({ storage: limited });
+    const errors: unknown[] = [];
+    const { state } = setup({ instance: app, onError: (err) => errors.push(err) });
+
+    state.value.theme = 'dark';
+
+    expect(errors).toEqual([expect.any(StorageQuotaError)]);
+    expect(state.value.theme).toBe('light');
+
+    full = false;
+    state.value.theme = 'dark';
+    expect(app.get(settings)).toEqual({ theme: 'dark', tags: [] });
+
+    app.set(settings, { theme: 'light', tags: ['external'] });
+    expect(state.value.tags).toEqual(['external']);
+  });
+
+  it('should rethrow failing writes without onError', () => {
+    const app = createZodStorage({
+      storage: {
+        ...createMemoryStorage(),
+        setItem: () => {
+          throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+        },
+      },
+    });
+    const { state } = setup({ instance: app });
+
+    expect(() => (state.value = { theme: 'dark', tags: [] })).toThrow(StorageQuotaError);
+    expect(state.value.theme).toBe('light');
+  });
+
+  it('should use the given instance', () => {
+    const app = createZodStorage({ namespace: 'app' });
+    const { state } = setup({ instance: app });
+
+    state.value.theme = 'dark';
+    expect(localStorage.getItem('app:settings')).toBe(JSON.stringify({ theme: 'dark', tags: [] }));
+  });
+});
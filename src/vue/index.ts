@@ -0,0 +1,3 @@
+export { useZodStorageRef } from './useZodStorageRef';
+
+export type { UseZodStorageRefOptions } from './useZodStorageRef';
@@ -0,0 +1,144 @@
+import { getCurrentScope, onScopeDispose, ref, Ref, watch } from 'vue';
+import { SafeStorage } from '@/types/type';
+import { ZodStorage, zodStorage } from '../core/zodStorage';
+import { taggedJsonSerializer } from '../serializers/taggedJsonSerializer';
+
+/**
+ * Options type for useZodStorageRef
+ */
+export interface UseZodStorageRefOptions {
+  /**
+   * zodStorage instance used to read and write the entry.
+   * Default: `zodStorage`
+   */
+  instance?: ZodStorage;
+
+  /**
+   * Delay in milliseconds to batch writes of successive mutations.
+   * Default: 0 (writes immediately)
+   */
+  debounce?: number;
+
+  /**
+   * Called when a write throws (e.g. a StorageQuotaError), after the ref was reverted to the stored value.
+   * Without it, the error is rethrown.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Vue composable returning a ref bound to a storage entry.
+ * - Missing or invalid values are read as `defaultValue`
+ * - Assignments and deep mutations are validated and persisted
+ * - Invalid or failing writes are rejected and the ref is reverted to the stored value
+ * - Writes from other tabs (and other code in this tab) update the ref
+ *
+ * @example
+ * ```ts
+ * const settings = useZodStorageRef(SettingsStorage, { debounce: 200 });
+ *
+ * settings.value.theme = 'dark';
+ * ```
+ *
+ * @template T The type of the stored value
+ * @param {SafeStorage<T>} storageConfig - Storage configuration including key, schema, and defaultValue
+ * @param {UseZodStorageRefOptions} [options] - Optional options
+ * @returns {Ref<T>} Ref bound to the entry
+ */
+export function useZodStorageRef<T>(
+  storageConfig: SafeStorage<T>,
+  options?: UseZodStorageRefOptions
+): Ref<T> {
+  const { instance = zodStorage, debounce = 0, onError } = options ?? {};
+
+  // Defaults are copied so deep mutations of the ref never reach the entry's defaultValue
+  const read = (): T =>
+    instance.get(storageConfig, { onFailure: 'null' }) ??
+    structuredClone(storageConfig.defaultValue);
+
+  const state = ref(read()) as Ref<T>;
+
+  // Set while the ref is updated from storage or written to storage, to avoid loops
+  let syncing = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const assign = (value: T) => {
+    syncing = true;
+    state.value = value;
+    syncing = false;
+  };
+
+  const persist = () => {
+    timer = undefined;
+    syncing = true;
+
+    let written: boolean;
+
+    try {
+      written = instance.set(storageConfig, state.value);
+    } catch (err) {
+      assign(read());
+
+      if (!onError) {
+        throw err;
+      }
+
+      onError(err);
+      return;
+    } finally {
+      syncing = false;
+    }
+
+    if (!written) {
+      assign(read());
+    }
+  };
+
+  const stopWatch = watch(
+    state,
+    () => {
+      if (syncing) {
+        return;
+      }
+
+      if (debounce <= 0) {
+        persist();
+        return;
+      }
+
+      clearTimeout(timer);
+      timer = setTimeout(persist, debounce);
+    },
+    { deep: true, flush: 'sync' }
+  );
+
+  const unsubscribe = instance.subscribe(
+    storageConfig,
+    (value) => {
+      if (syncing) {
+        return;
+      }
+
+      const next = value ?? structuredClone(storageConfig.defaultValue);
+
+      if (taggedJsonSerializer.stringify(next) !== taggedJsonSerializer.stringify(state.value)) {
+        assign(next);
+      }
+    },
+    { onFailure: 'null' }
+  );
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+        persist();
+      }
+
+      stopWatch();
+      unsubscribe();
+    });
+  }
+
+  return state;
+}
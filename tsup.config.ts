@@ -1,13 +1,18 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    react: 'src/react/index.ts',
+    vue: 'src/vue/index.ts',
+  },
   format: ['cjs', 'esm'],
   dts: true,
-  splitting: false,
+  // Share one copy of the core between entries so instances and subscribers are not duplicated
+  splitting: true,
   sourcemap: false,
   clean: true,
   minify: true,
   treeshake: true,
-  external: ['zod'],
+  external: ['zod', 'react', 'vue'],
 });